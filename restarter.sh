@@ -168,6 +168,10 @@ except Exception:
     return 0
 }
 
+# 성공적인 턴어라운드 로그 패턴
+# 구조화 로그의 run.succeeded 이벤트 (예전 버전의 TURNAROUND_SUCCESS 문자열도 인정)
+TURNAROUND_PATTERN='"event":"run\.succeeded"|TURNAROUND_SUCCESS'
+
 # PM2 재시작 이후 성공적인 턴어라운드 로그가 있는지 확인
 # $1: 재시작 시점 (ISO 8601 형식)
 check_turnaround_success() {
@@ -189,23 +193,28 @@ check_turnaround_success() {
     # 로그 파일이 없으면 pm2 logs 명령 사용 (fallback)
     if [ ! -f "$pm2_log_file" ]; then
         echo "[$(date)] PM2 로그 파일을 찾을 수 없음: $pm2_log_file, pm2 logs 명령 사용"
-        local log_lines=$(pm2 logs $PM2_SERVICE_NAME --nostream --lines 200 2>/dev/null | grep "TURNAROUND_SUCCESS")
+        local log_lines=$(pm2 logs $PM2_SERVICE_NAME --nostream --lines 200 2>/dev/null | grep -E "$TURNAROUND_PATTERN")
     else
         # 로그 파일에서 최근 200줄 읽기
-        local log_lines=$(tail -n 200 "$pm2_log_file" 2>/dev/null | grep "TURNAROUND_SUCCESS")
+        local log_lines=$(tail -n 200 "$pm2_log_file" 2>/dev/null | grep -E "$TURNAROUND_PATTERN")
     fi
 
     if [ -z "$log_lines" ]; then
-        echo "[$(date)] TURNAROUND_SUCCESS 로그를 찾을 수 없음"
+        echo "[$(date)] 턴어라운드 성공 로그(run.succeeded)를 찾을 수 없음"
         return 1
     fi
 
-    echo "[$(date)] TURNAROUND_SUCCESS 로그 발견, 타임스탬프 확인 중..."
+    echo "[$(date)] 턴어라운드 성공 로그 발견, 타임스탬프 확인 중..."
 
     # 각 라인에서 타임스탬프를 추출하고 재시작 시점 이후인지 확인
     while IFS= read -r line; do
+        # JSON 로그의 "time":"2025-01-15T12:34:56.789Z" 필드에서 타임스탬프 추출
+        local timestamp=$(echo "$line" | grep -oE '"time":"[0-9]{4}-[0-9]{2}-[0-9]{2}T[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}Z"' | head -1 | cut -d'"' -f4)
+
         # [2025-01-15T12:34:56.789Z] 형식에서 타임스탬프 추출 (Z 포함)
-        local timestamp=$(echo "$line" | grep -oE '\[([0-9]{4}-[0-9]{2}-[0-9]{2}T[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}Z)\]' | head -1 | tr -d '[]')
+        if [ -z "$timestamp" ]; then
+            timestamp=$(echo "$line" | grep -oE '\[([0-9]{4}-[0-9]{2}-[0-9]{2}T[0-9]{2}:[0-9]{2}:[0-9]{2}\.[0-9]{3}Z)\]' | head -1 | tr -d '[]')
+        fi
         
         # Z가 없는 경우도 처리 (밀리초 없이)
         if [ -z "$timestamp" ]; then
@@ -230,7 +239,7 @@ check_turnaround_success() {
         fi
     done <<< "$log_lines"
 
-    echo "[$(date)] 재시작 이후 TURNAROUND_SUCCESS 로그를 찾지 못함"
+    echo "[$(date)] 재시작 이후 턴어라운드 성공 로그를 찾지 못함"
     return 1
 }
 
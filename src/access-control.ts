@@ -0,0 +1,121 @@
+/**
+ * 접근 제어
+ *
+ * 봇은 서버에서 임의의 셸 명령을 실행할 수 있으므로, access-control.json에
+ * 허용된 유저와 채널에서만 요청과 버튼 조작을 받습니다.
+ * 관리자는 채널/유저 제한과 관계없이 허용되며, App Home 대시보드에서
+ * 다른 사람의 작업을 중단/취소할 수 있습니다.
+ *
+ * 관리자는 예전처럼 ADMIN_USER_IDS 환경 변수로도 지정할 수 있습니다.
+ * access-control.json에 admins가 있으면 그쪽이 우선하고 환경 변수는 무시됩니다.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { logger } from "./logger";
+
+/** 접근 제어 파일 구조 (빠진 목록은 제한하지 않음) */
+interface AccessControlConfig {
+  /** 허용된 슬랙 유저 ID */
+  allowedUsers?: string[];
+  /** 허용된 채널 ID */
+  allowedChannels?: string[];
+  /** 관리자 슬랙 유저 ID (없으면 ADMIN_USER_IDS 환경 변수를 씀) */
+  admins?: string[];
+}
+
+/** 접근 거부 정보 */
+export interface AccessDenial {
+  reason: "user" | "channel";
+}
+
+/**
+ * 접근 제어 파일 경로를 반환합니다.
+ */
+function getConfigPath(): string {
+  const projectRoot = process.env.PROJECT_DIR || process.cwd();
+  return join(projectRoot, "access-control.json");
+}
+
+/**
+ * 접근 제어 파일을 로드합니다.
+ * 파일이 없으면 빈 객체를 반환합니다 (제한 없음).
+ * 파싱에 실패하면 관리자 외에는 모두 거부합니다.
+ */
+function loadAccessControl(): AccessControlConfig {
+  const configPath = getConfigPath();
+
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const content = readFileSync(configPath, "utf-8");
+    return JSON.parse(content);
+  } catch (error) {
+    // 설정이 깨졌다고 아무나 쓸 수 있게 되면 안 되므로 모두 막습니다.
+    logger.error("접근 제어 파일 파싱 실패", { error });
+    return { allowedUsers: [], allowedChannels: [] };
+  }
+}
+
+/**
+ * 접근 제어 파일이 있는지 확인합니다.
+ */
+export function isAccessControlConfigured(): boolean {
+  return existsSync(getConfigPath());
+}
+
+/**
+ * ADMIN_USER_IDS 환경 변수(쉼표로 구분한 슬랙 유저 ID)를 읽습니다.
+ */
+function getAdminUserIdsFromEnv(): string[] {
+  return (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 관리자 목록을 반환합니다. 파일에 admins가 없으면 ADMIN_USER_IDS를 씁니다.
+ */
+function getAdmins(config: AccessControlConfig): string[] {
+  return config.admins ?? getAdminUserIdsFromEnv();
+}
+
+/**
+ * ADMIN_USER_IDS가 설정되어 있지만 access-control.json의 admins 때문에 무시되는지 확인합니다.
+ */
+export function isAdminEnvIgnored(): boolean {
+  return getAdminUserIdsFromEnv().length > 0 && loadAccessControl().admins !== undefined;
+}
+
+/**
+ * 관리자인지 확인합니다.
+ */
+export function isAdmin(userId: string): boolean {
+  return getAdmins(loadAccessControl()).includes(userId);
+}
+
+/**
+ * 유저가 채널에서 봇을 사용할 수 있는지 확인합니다.
+ * 매번 파일을 다시 읽으므로 변경이 재시작 없이 반영됩니다.
+ *
+ * @param userId 슬랙 유저 ID
+ * @param channel 채널 ID (App Home처럼 채널이 없으면 생략)
+ * @returns 거부 사유 (허용이면 null)
+ */
+export function checkAccess(userId: string, channel?: string): AccessDenial | null {
+  const config = loadAccessControl();
+
+  if (getAdmins(config).includes(userId)) {
+    return null;
+  }
+  if (config.allowedUsers && !config.allowedUsers.includes(userId)) {
+    return { reason: "user" };
+  }
+  if (channel && config.allowedChannels && !config.allowedChannels.includes(channel)) {
+    return { reason: "channel" };
+  }
+  return null;
+}
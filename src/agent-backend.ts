@@ -0,0 +1,84 @@
+/**
+ * 에이전트 백엔드
+ *
+ * handleClaudeQuery가 실제로 에이전트를 실행하는 부분을 인터페이스로 분리합니다.
+ * 백엔드는 실행 중에 도구 사용과 결과, 어시스턴트 텍스트, 세션 ID, 최종 결과 이벤트를 순서대로 보냅니다.
+ *
+ * 구현:
+ * - sdk: Claude Code SDK로 실제 Claude를 실행 (기본값)
+ * - scripted: 기록해 둔 transcript를 그대로 재생 (Claude 로그인 없이 봇을 돌려볼 때, 테스트용)
+ *
+ * AGENT_BACKEND 환경 변수로 선택합니다.
+ */
+
+import type { PermissionMode } from "@instantlyeasy/claude-code-sdk-ts";
+import { ScriptedBackend } from "./scripted-backend";
+import { SdkBackend } from "./sdk-backend";
+import type { TokenUsage } from "./usage-ledger";
+
+/** 백엔드가 보내는 이벤트 */
+export type AgentEvent =
+  /** 에이전트 세션 ID (다음 실행에서 이어서 대화할 때 사용) */
+  | { type: "session_id"; sessionId: string }
+  /** 도구 사용 */
+  | { type: "tool_use"; name: string; input: Record<string, unknown> }
+  /** 직전 도구 호출의 결과 (알려주지 않는 백엔드는 다음 이벤트로 성공 처리됨) */
+  | { type: "tool_result"; isError: boolean }
+  /** 어시스턴트 텍스트 (지금까지의 답변) */
+  | { type: "assistant_text"; text: string }
+  /** 최종 결과 */
+  | { type: "result"; text: string; usage: TokenUsage | null };
+
+/** 실행 옵션 */
+export interface AgentRunOptions {
+  prompt: string;
+  /** 사용자가 보낸 원래 요청 (scripted 백엔드가 transcript를 고를 때 사용) */
+  userQuery: string;
+  cwd?: string;
+  /** 이어서 대화할 세션 ID */
+  sessionId?: string | null;
+  permissionMode: PermissionMode;
+  allowedTools?: string[];
+  deniedTools?: string[];
+  /** 에이전트 프로세스에 넘길 환경 변수 */
+  env?: Record<string, string>;
+  signal: AbortSignal;
+}
+
+/** 에이전트 백엔드 인터페이스 */
+export interface AgentBackend {
+  readonly name: string;
+
+  /**
+   * 에이전트를 실행합니다. 이벤트는 onEvent가 끝난 뒤 다음 이벤트를 보냅니다.
+   * 실패하거나 중단되면 에러를 던집니다.
+   */
+  run(options: AgentRunOptions, onEvent: (event: AgentEvent) => Promise<void>): Promise<void>;
+}
+
+let backend: AgentBackend | null = null;
+
+/**
+ * 설정된 에이전트 백엔드를 반환합니다. 처음 호출할 때 만듭니다.
+ */
+export function getAgentBackend(): AgentBackend {
+  if (!backend) {
+    const name = process.env.AGENT_BACKEND || "sdk";
+    if (name === "scripted") {
+      backend = ScriptedBackend.fromDirectory();
+    } else if (name === "sdk") {
+      backend = new SdkBackend();
+    } else {
+      throw new Error(`알 수 없는 AGENT_BACKEND: ${name} (sdk 또는 scripted)`);
+    }
+  }
+  return backend;
+}
+
+/**
+ * 사용할 에이전트 백엔드를 직접 지정합니다. (테스트에서 scripted 백엔드를 끼울 때 사용)
+ * null을 넘기면 다음 호출 때 AGENT_BACKEND 설정으로 다시 만듭니다.
+ */
+export function setAgentBackend(next: AgentBackend | null): void {
+  backend = next;
+}
@@ -0,0 +1,197 @@
+/**
+ * 슬랙 첨부 파일 관리
+ *
+ * 멘션과 함께 올린 파일(로그, 스크린샷, 패치 등)을 봇 토큰으로 내려받아
+ * 스레드별 임시 디렉토리에 저장합니다. 프롬프트에 로컬 경로를 알려주면
+ * Claude가 Read 도구로 읽을 수 있습니다.
+ *
+ * 디렉토리 구조 (ATTACHMENTS_ROOT 기본값: data/attachments):
+ *   <ATTACHMENTS_ROOT>/<threadTs>/<파일 ID>-<파일 이름>
+ *
+ * 스레드의 세션이 삭제될 때 디렉토리도 함께 삭제됩니다.
+ */
+
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { getMessages, type Locale } from "./i18n";
+import { getDataFilePath } from "./json-store";
+import { logger } from "./logger";
+
+/** 내려받은 첨부 파일 */
+export interface SavedAttachment {
+  name: string;
+  path: string;
+  mimetype: string;
+  size: number;
+}
+
+/** 받지 않은 첨부 파일 */
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+}
+
+/** 첨부 파일 처리 결과 */
+export interface AttachmentResult {
+  saved: SavedAttachment[];
+  skipped: SkippedAttachment[];
+}
+
+// files.info 응답 중 사용하는 필드
+interface SlackFileInfo {
+  id?: string;
+  name?: string | null;
+  mimetype?: string;
+  filetype?: string;
+  size?: number;
+  url_private_download?: string;
+}
+
+// Slack client 타입 (files.info 메서드만 사용)
+interface SlackClient {
+  files: {
+    info: (args: { file: string }) => Promise<{ file?: SlackFileInfo }>;
+  };
+}
+
+// ATTACHMENT_MAX_MB가 없거나 잘못됐을 때 쓰는 파일 하나의 최대 크기(MB)
+const DEFAULT_MAX_MB = 10;
+
+// 기본 허용 MIME 타입 (접두사 일치)
+const DEFAULT_ALLOWED_TYPES = "text/,image/,application/json,application/pdf,application/x-yaml";
+
+// MIME 타입이 애매하게 오는 텍스트 파일들 (슬랙 filetype 기준)
+const TEXT_FILETYPES = new Set(["text", "diff", "patch", "log", "csv", "markdown", "yaml", "json"]);
+
+/**
+ * 파일 하나의 최대 크기(바이트)를 반환합니다.
+ */
+function getMaxFileBytes(): number {
+  const value = process.env.ATTACHMENT_MAX_MB;
+  if (!value) {
+    return DEFAULT_MAX_MB * 1024 * 1024;
+  }
+
+  // NaN이면 크기 비교가 항상 거짓이 되어 한도가 사라지므로 기본값을 씀
+  const megabytes = Number(value);
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    logger.warn("ATTACHMENT_MAX_MB가 0보다 큰 숫자가 아니라 기본값을 씁니다", {
+      value,
+      fallback: DEFAULT_MAX_MB,
+    });
+    return DEFAULT_MAX_MB * 1024 * 1024;
+  }
+  return megabytes * 1024 * 1024;
+}
+
+/**
+ * 파일 형식이 허용되는지 확인합니다.
+ */
+function isAllowedType(file: SlackFileInfo): boolean {
+  if (file.filetype && TEXT_FILETYPES.has(file.filetype)) {
+    return true;
+  }
+
+  const allowedTypes = (process.env.ATTACHMENT_ALLOWED_TYPES || DEFAULT_ALLOWED_TYPES)
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return allowedTypes.some((type) => (file.mimetype ?? "").startsWith(type));
+}
+
+/**
+ * 스레드의 첨부 파일 디렉토리를 반환합니다.
+ */
+export function getAttachmentDir(threadTs: string): string {
+  const root = process.env.ATTACHMENTS_ROOT || getDataFilePath("attachments");
+  return join(root, threadTs.replace(/\./g, "_"));
+}
+
+/**
+ * 멘션에 첨부된 파일들을 내려받습니다.
+ *
+ * 크기나 형식 제한에 걸리거나 다운로드에 실패한 파일은 건너뛰고 사유를 함께 반환합니다.
+ *
+ * @param client 슬랙 클라이언트 (files:read 권한 필요)
+ * @param threadTs 스레드 타임스탬프
+ * @param fileIds 이벤트의 files[].id
+ * @param locale 받지 못한 이유를 적을 언어 (요청한 유저의 언어)
+ */
+export async function downloadAttachments(
+  client: SlackClient,
+  threadTs: string,
+  fileIds: string[],
+  locale: Locale,
+): Promise<AttachmentResult> {
+  const m = getMessages(locale).run;
+  const log = logger.child({ threadTs });
+  const result: AttachmentResult = { saved: [], skipped: [] };
+  const maxBytes = getMaxFileBytes();
+
+  for (const fileId of fileIds) {
+    let file: SlackFileInfo | undefined;
+    try {
+      file = (await client.files.info({ file: fileId })).file;
+    } catch (error) {
+      log.error("첨부 파일 정보 조회 실패", { fileId, error });
+    }
+
+    const name = file?.name || fileId;
+    if (!file?.url_private_download) {
+      result.skipped.push({ name, reason: m.attachmentUnavailable });
+      continue;
+    }
+    if ((file.size ?? 0) > maxBytes) {
+      result.skipped.push({ name, reason: m.attachmentTooLarge(maxBytes / 1024 / 1024) });
+      continue;
+    }
+    if (!isAllowedType(file)) {
+      result.skipped.push({ name, reason: m.attachmentUnsupported(file.mimetype ?? "") });
+      continue;
+    }
+
+    try {
+      const response = await fetch(file.url_private_download, {
+        headers: { Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}` },
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = Buffer.from(await response.arrayBuffer());
+      const dir = getAttachmentDir(threadTs);
+      mkdirSync(dir, { recursive: true });
+
+      // 같은 이름의 파일이 여러 번 올라와도 덮어쓰지 않도록 파일 ID를 붙입니다.
+      const safeName = basename(name).replace(/[^\w.-]/g, "_");
+      const path = join(dir, `${fileId}-${safeName}`);
+      writeFileSync(path, data);
+
+      result.saved.push({ name, path, mimetype: file.mimetype ?? "", size: data.length });
+    } catch (error) {
+      log.error("첨부 파일 다운로드 실패", { fileId, name, error });
+      result.skipped.push({ name, reason: m.attachmentDownloadFailed });
+    }
+  }
+
+  if (result.saved.length > 0) {
+    log.info("첨부 파일 저장", {
+      savedCount: result.saved.length,
+      skippedCount: result.skipped.length,
+    });
+  }
+  return result;
+}
+
+/**
+ * 스레드의 첨부 파일 디렉토리를 삭제합니다.
+ */
+export function removeAttachments(threadTs: string): void {
+  const dir = getAttachmentDir(threadTs);
+  if (!existsSync(dir)) {
+    return;
+  }
+
+  rmSync(dir, { recursive: true, force: true });
+  logger.info("첨부 파일 삭제", { threadTs, dir });
+}
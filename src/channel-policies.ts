@@ -0,0 +1,65 @@
+/**
+ * 채널별 권한 정책 관리
+ *
+ * 슬랙 채널 ID별로 Claude의 권한 모드와 허용/차단 도구 목록을 정합니다.
+ * 예를 들어 고객 지원 채널은 Read/Grep/Glob만 쓰는 읽기 전용으로,
+ * 개발 채널은 지금처럼 모든 권한으로 실행할 수 있습니다.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { PermissionMode } from "@instantlyeasy/claude-code-sdk-ts";
+import { logger } from "./logger";
+
+/** 채널에 적용되는 권한 정책 */
+export interface ChannelPolicy {
+  permissionMode: PermissionMode;
+  /** 허용할 도구 목록 (예: ["Read", "Grep", "Glob"]) */
+  allowedTools?: string[];
+  /** 차단할 도구 목록 (예: ["Bash", "Write", "Edit"]) */
+  deniedTools?: string[];
+}
+
+/** 정책 파일 구조 */
+interface ChannelPoliciesConfig {
+  /** 목록에 없는 채널에 적용할 정책 */
+  default?: ChannelPolicy;
+  /** 채널 ID → 정책 */
+  channels?: Record<string, ChannelPolicy>;
+}
+
+/** 정책 파일이 없을 때의 기본 정책 (기존 동작과 동일) */
+const FALLBACK_POLICY: ChannelPolicy = { permissionMode: "bypassPermissions" };
+
+/**
+ * 정책 파일을 로드합니다.
+ * 파일이 없거나 파싱에 실패하면 빈 객체를 반환합니다.
+ */
+function loadChannelPolicies(): ChannelPoliciesConfig {
+  const projectRoot = process.env.PROJECT_DIR || process.cwd();
+  const configPath = join(projectRoot, "channel-policies.json");
+
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const content = readFileSync(configPath, "utf-8");
+    return JSON.parse(content);
+  } catch (error) {
+    logger.error("채널 권한 정책 파일 파싱 실패", { error });
+    return {};
+  }
+}
+
+/**
+ * 채널에 적용할 권한 정책을 반환합니다.
+ * 매번 파일을 다시 읽으므로 정책 변경이 재시작 없이 반영됩니다.
+ *
+ * @param channelId 슬랙 채널 ID
+ */
+export function getChannelPolicy(channelId?: string): ChannelPolicy {
+  const config = loadChannelPolicies();
+  const channelPolicy = channelId ? config.channels?.[channelId] : undefined;
+  return channelPolicy ?? config.default ?? FALLBACK_POLICY;
+}
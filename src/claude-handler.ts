@@ -1,16 +1,44 @@
 /**
- * Claude SDK 핸들러
- * 슬랙 메시지를 받아 Claude에 전달하고 응답을 스트리밍합니다.
+ * Claude 핸들러
+ * 슬랙 메시지를 받아 에이전트 백엔드에 전달하고 응답을 스트리밍합니다.
  */
 
-import { type ContentBlock, claude } from "@instantlyeasy/claude-code-sdk-ts";
+import { existsSync } from "node:fs";
+import { getAgentBackend } from "./agent-backend";
+import type { SavedAttachment } from "./attachments";
+import { getChannelPolicy } from "./channel-policies";
+import {
+  type RepoChange,
+  type RepoSnapshot,
+  snapshotRepos,
+  summarizeRepoChanges,
+} from "./git-changes";
+import { getDefaultLocale, getMessages, type Locale } from "./i18n";
+import { type Logger, logger } from "./logger";
+import { metrics } from "./monitoring";
 import { buildPrompt } from "./prompts";
+import { revertManager } from "./revert-manager";
+import { RunTimeline, type TimelineStep } from "./run-timeline";
 import { sessionManager } from "./session-manager";
+import { countCompleted, parseTodoWriteInput, type TodoItem } from "./todo-plan";
+import { getToolApprovalEnv, toolApprovalManager } from "./tool-approval";
+import type { TokenUsage } from "./usage-ledger";
+import { createWorkspace, isWorkspaceModeEnabled } from "./workspace-manager";
 
 /** 실행 요약 정보입니다. */
-interface ExecutionSummary {
+export interface ExecutionSummary {
   durationSeconds: number;
   toolCallCount: number;
+  /** result 메시지의 토큰/비용 사용량 (없으면 null) */
+  usage: TokenUsage | null;
+  /** 실행 동안 바뀐 git 저장소들 */
+  gitChanges: RepoChange[];
+  /** "되돌리기" 버튼에 쓸 지점 ID (되돌릴 것이 없으면 null) */
+  revertPointId: string | null;
+  /** 도구 호출 내역 */
+  timeline: TimelineStep[];
+  /** Claude가 마지막으로 세운 작업 계획 (TodoWrite를 쓰지 않았으면 빈 배열) */
+  plan: TodoItem[];
 }
 
 /** 스트림 콜백 인터페이스입니다. */
@@ -18,9 +46,10 @@ interface StreamCallbacks {
   /** 진행 상황이 업데이트될 때 호출됩니다. */
   onProgress: (
     text: string,
-    toolInfo: string | undefined,
+    steps: TimelineStep[],
     elapsedSeconds: number,
     toolCallCount: number,
+    plan: TodoItem[],
   ) => Promise<void>;
   /** 최종 결과가 도착했을 때 호출됩니다. */
   onResult: (text: string, summary: ExecutionSummary) => Promise<void>;
@@ -29,12 +58,22 @@ interface StreamCallbacks {
 }
 
 /**
- * Claude에 쿼리를 보내고 스트리밍 응답을 처리합니다.
+ * 도구 입력에서 로그에 남길 핵심 값(명령, 파일, 패턴)을 꺼냅니다.
+ */
+function getToolKeyInput(input: Record<string, unknown>): string | undefined {
+  const value = input.command ?? input.file_path ?? input.pattern;
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * 에이전트 백엔드에 쿼리를 보내고 스트리밍 응답을 처리합니다.
  *
  * 흐름:
- * 1. 도구 사용 시 → onProgress 호출
+ * 1. 도구 사용/결과 수신 시 → 타임라인 기록 후 onProgress 호출
  * 2. 어시스턴트 텍스트 수신 시 → onProgress 호출
- * 3. 스트림 종료 시 → onResult 호출 (최종 상태)
+ * 3. 스트림 종료 시 → onResult 호출 (최종 상태, 전체 타임라인 포함)
+ *
+ * 로그는 `log`(요청 식별 정보가 붙은 로거)로 남깁니다.
  */
 export async function handleClaudeQuery(
   threadTs: string,
@@ -42,6 +81,9 @@ export async function handleClaudeQuery(
   callbacks: StreamCallbacks,
   channelId?: string,
   slackUserId?: string,
+  attachments: SavedAttachment[] = [],
+  locale: Locale = getDefaultLocale(),
+  log: Logger = logger.child({ threadTs, userId: slackUserId, channel: channelId }),
 ): Promise<string | null> {
   const session = sessionManager.getOrCreateSession(threadTs);
   const abortSignal = session.abortController.signal;
@@ -49,108 +91,155 @@ export async function handleClaudeQuery(
   // 상태 변수들
   let progressText = ""; // 현재까지 받은 텍스트
   let resultText = ""; // 최종 결과 텍스트
-  let currentToolInfo = ""; // 현재 실행 중인 도구 정보
+  const timeline = new RunTimeline(); // 도구 호출 내역
+  let plan: TodoItem[] = []; // 마지막 TodoWrite 계획
 
   // 실행 통계
   const startTime = Date.now();
   let toolCallCount = 0;
+  let usage: TokenUsage | null = null;
+
+  // 지금까지의 상태를 UI에 반영합니다.
+  const reportProgress = async () => {
+    const elapsedSeconds = Math.round((Date.now() - startTime) / 1000);
+    await callbacks.onProgress(
+      progressText,
+      timeline.getSteps(),
+      elapsedSeconds,
+      toolCallCount,
+      plan,
+    );
+  };
 
   try {
-    let claudeBuilder = claude()
-      .withConfig({
-        version: "1.0",
-        globalSettings: {
-          cwd: process.env.CLAUDE_CWD,
-          permissionMode: "bypassPermissions",
-        },
-      })
-      .withSignal(abortSignal)
-
-      // 도구 사용 시 즉시 UI 업데이트합니다.
-      .onToolUse(async (tool) => {
-        toolCallCount++;
-
-        // 도구 입력에서 상세 정보를 추출합니다.
-        const input = tool.input as Record<string, unknown> | undefined;
-        const description = (input?.description as string) || "";
-        const command = (input?.command as string) || "";
-        const pattern = (input?.pattern as string) || "";
-        const filePath = (input?.file_path as string) || "";
-
-        // 도구별 상세 정보를 구성합니다.
-        let details = "";
-        if (description) details += description;
-        if (command) details += (details ? "\n" : "") + `\`${command}\``;
-        if (pattern) details += (details ? "\n" : "") + `패턴: ${pattern}`;
-        if (filePath) details += (details ? "\n" : "") + `파일: ${filePath}`;
-
-        currentToolInfo = `🔧 *${tool.name}*${details ? "\n" + details : ""}`;
-
-        // 도구 사용은 중요한 이벤트이므로 즉시 UI에 반영합니다.
-        const elapsedSeconds = Math.round((Date.now() - startTime) / 1000);
-        await callbacks.onProgress(progressText, currentToolInfo, elapsedSeconds, toolCallCount);
-      })
-
-      // 어시스턴트 메시지를 처리합니다.
-      .onAssistant(async (content) => {
-        if (abortSignal.aborted) return;
+    // 작업 공간 모드면 스레드 전용 worktree에서 실행합니다.
+    let cwd = process.env.CLAUDE_CWD;
+    if (isWorkspaceModeEnabled()) {
+      if (!session.workspacePath || !existsSync(session.workspacePath)) {
+        sessionManager.setWorkspacePath(threadTs, await createWorkspace(threadTs));
+      }
+      cwd = session.workspacePath ?? cwd;
+    }
 
-        // 텍스트 콘텐츠를 찾습니다.
-        const textContent = content.find(
-          (c: ContentBlock): c is ContentBlock & { type: "text"; text: string } =>
-            c.type === "text",
-        );
+    // 실행 후 무엇이 바뀌었는지 비교하기 위해 저장소 상태를 찍어 둡니다.
+    const gitSnapshots: RepoSnapshot[] = cwd ? await snapshotRepos(cwd) : [];
 
-        if (textContent) {
-          progressText = textContent.text;
+    // 채널 권한 정책을 적용합니다.
+    const policy = getChannelPolicy(channelId);
 
-          // 텍스트가 업데이트되면 UI에 반영합니다.
-          const elapsedSeconds = Math.round((Date.now() - startTime) / 1000);
-          await callbacks.onProgress(progressText, currentToolInfo, elapsedSeconds, toolCallCount);
-        }
-      })
+    // 세션 ID가 없으면 새 세션으로 시작하고, 있으면 이어서 대화합니다.
+    if (session.claudeSessionId) {
+      log.info("기존 세션 이어서 실행", { sessionId: session.claudeSessionId });
+    } else {
+      log.info("새 세션 시작");
+    }
+
+    const prompt = buildPrompt(userQuery, threadTs, channelId, slackUserId, cwd, attachments);
+    const backend = getAgentBackend();
 
-      // 모든 메시지에서 세션 ID와 결과를 처리합니다.
-      .onMessage((message) => {
+    // 이벤트를 순서대로 처리합니다. 중단된 뒤에 오는 이벤트는 무시합니다.
+    await backend.run(
+      {
+        prompt,
+        userQuery,
+        cwd,
+        sessionId: session.claudeSessionId,
+        permissionMode: policy.permissionMode,
+        allowedTools: policy.allowedTools,
+        deniedTools: policy.deniedTools,
+        // 승인 모드면 PreToolUse 훅이 봇에 접속할 수 있도록 정보를 넘깁니다.
+        env: getToolApprovalEnv(threadTs),
+        signal: abortSignal,
+      },
+      async (event) => {
         if (abortSignal.aborted) return;
 
-        // 세션 ID를 저장합니다 (첫 번째 수신 시에만).
-        if (message.session_id && !session.claudeSessionId) {
-          console.log(
-            `[${new Date().toISOString()}] 📌 세션 ID 저장: ${message.session_id.substring(0, 12)}... (스레드: ${threadTs})`,
-          );
-          sessionManager.updateClaudeSessionId(threadTs, message.session_id);
-        }
+        switch (event.type) {
+          case "tool_use": {
+            toolCallCount++;
 
-        // result 메시지가 오면 최종 텍스트를 저장합니다.
-        if (message.type === "result") {
-          resultText = message.content || progressText;
-        }
-      });
+            // TodoWrite는 할 일 목록 전체를 다시 쓰므로 마지막 입력이 현재 계획입니다.
+            const todos = event.name === "TodoWrite" ? parseTodoWriteInput(event.input) : null;
+            if (todos) {
+              plan = todos;
+            }
 
-    // 기존 세션이 있으면 이어서 대화합니다.
-    if (session.claudeSessionId) {
-      console.log(
-        `[${new Date().toISOString()}] 🔄 기존 세션 ID 사용: ${session.claudeSessionId.substring(0, 12)}... (스레드: ${threadTs})`,
-      );
-      claudeBuilder = claudeBuilder.withSessionId(session.claudeSessionId);
-    } else {
-      console.log(`[${new Date().toISOString()}] 🆕 새 세션 시작 (스레드: ${threadTs})`);
-    }
+            const keyInput = todos
+              ? getMessages(locale).plan.toolInput(countCompleted(todos), todos.length)
+              : getToolKeyInput(event.input);
+            const description =
+              typeof event.input.description === "string" ? event.input.description : undefined;
+            timeline.startTool(event.name, keyInput, description);
+            metrics.recordToolUse(event.name);
+            log.event("tool_use", { tool: event.name, toolCallCount, input: keyInput });
+
+            // 도구 사용은 중요한 이벤트이므로 즉시 UI에 반영합니다.
+            await reportProgress();
+            break;
+          }
+
+          case "tool_result": {
+            timeline.finishRunning(event.isError ? "failed" : "succeeded");
+            await reportProgress();
+            break;
+          }
 
-    const prompt = buildPrompt(userQuery, threadTs, channelId, slackUserId);
+          case "assistant_text": {
+            // 어시스턴트가 다시 말하기 시작했으면 직전 도구는 끝난 것입니다.
+            timeline.finishRunning();
+            progressText = event.text;
 
-    // 스트림을 실행합니다. 콜백들이 자동으로 호출됩니다.
-    await claudeBuilder.query(prompt).stream(async () => {
-      // 스트림 메시지는 위의 콜백들에서 처리됩니다.
-    });
+            // 텍스트가 업데이트되면 UI에 반영합니다.
+            await reportProgress();
+            break;
+          }
+
+          case "session_id": {
+            // 세션 ID를 저장합니다 (첫 번째 수신 시에만).
+            if (!session.claudeSessionId) {
+              log.info("세션 ID 저장", { sessionId: event.sessionId });
+              sessionManager.updateClaudeSessionId(threadTs, event.sessionId);
+            }
+            break;
+          }
+
+          case "result": {
+            // result 메시지가 오면 최종 텍스트를 저장합니다.
+            timeline.finishRunning();
+            resultText = event.text || progressText;
+            usage = event.usage;
+            break;
+          }
+        }
+      },
+    );
 
     // 스트림이 종료되면 최종 결과를 전송합니다.
     // 중요: onProgress를 여기서 호출하지 않습니다. 경합 조건을 방지하기 위함입니다.
     if (!abortSignal.aborted) {
       const finalText = resultText || progressText;
       const durationSeconds = Math.round((Date.now() - startTime) / 1000);
-      await callbacks.onResult(finalText, { durationSeconds, toolCallCount });
+      const gitChanges = cwd ? await summarizeRepoChanges(cwd, gitSnapshots) : [];
+
+      // 바뀐 저장소가 있으면 되돌릴 수 있도록 실행 전 상태를 기록합니다.
+      let revertPointId: string | null = null;
+      if (cwd && gitChanges.length > 0) {
+        try {
+          revertPointId = await revertManager.save(threadTs, cwd, gitSnapshots, gitChanges);
+        } catch (error) {
+          log.warn("되돌리기 지점 기록 실패", { error });
+        }
+      }
+
+      await callbacks.onResult(finalText, {
+        durationSeconds,
+        toolCallCount,
+        usage,
+        gitChanges,
+        revertPointId,
+        timeline: timeline.getSteps(),
+        plan,
+      });
     }
 
     return resultText || progressText;
@@ -169,7 +258,9 @@ export async function handleClaudeQuery(
 
 /**
  * 세션을 중단합니다.
+ * 대기 중인 승인 요청이 있으면 함께 거부합니다.
  */
 export function abortSession(threadTs: string): boolean {
+  toolApprovalManager.cancelThread(threadTs);
   return sessionManager.abortSession(threadTs);
 }
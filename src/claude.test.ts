@@ -31,10 +31,10 @@ describe("Claude SDK 실제 통합 테스트", () => {
     let chunkCount = 0;
 
     console.log("\n📡 스트리밍 응답:");
+    // CLAUDE_CWD가 있으면 그 아래, 없으면 이 저장소를 대상으로 합니다.
+    const targetDir = process.env.CLAUDE_CWD || process.cwd();
     await claude()
-      .query(
-        "/Users/potados/Projects/sonamu에 가서 현재 변경된 내용들이 무엇이고 왜 변경되었는지 설명해줘.",
-      )
+      .query(`${targetDir}에 가서 현재 변경된 내용들이 무엇이고 왜 변경되었는지 설명해줘.`)
       .stream(async (message) => {
         console.log(JSON.stringify(message, null, 2));
 
@@ -0,0 +1,221 @@
+/**
+ * 실행 전후 git 변경 사항 요약
+ *
+ * Claude 실행 전후로 작업 디렉토리 아래 git 저장소들의 HEAD와 작업 트리 상태를
+ * 찍어 두고, 실행 동안 바뀐 파일(추가/삭제 줄 수)과 새 커밋을 계산합니다.
+ *
+ * 실행 전부터 있던 커밋되지 않은 변경은 실행 전 상태와 비교해 제외합니다.
+ * 파일 경로는 되돌리기에서 그대로 쓰므로 이름 변경은 삭제와 추가로 나눠 셉니다.
+ */
+
+import { execFile } from "node:child_process";
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { logger } from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+/** 저장소 하나의 상태 스냅샷 */
+export interface RepoSnapshot {
+  name: string;
+  path: string;
+  head: string | null;
+  /** 현재 브랜치 (detached HEAD면 null) */
+  branch: string | null;
+  /** 커밋되지 않은 변경을 담은 stash 커밋 (`git stash create`, 깨끗하면 null) */
+  stash: string | null;
+  /** 파일 경로 → "추가\t삭제" (실행 전 HEAD 기준 작업 트리 diff) */
+  diffStats: Map<string, string>;
+  /** 추적되지 않는 파일 경로 */
+  untracked: Set<string>;
+}
+
+/** 바뀐 파일 */
+export interface ChangedFile {
+  path: string;
+  insertions: number;
+  deletions: number;
+  /** 새로 만든(추적되지 않는) 파일 */
+  isNew: boolean;
+}
+
+/** 새 커밋 */
+export interface NewCommit {
+  hash: string;
+  author: string;
+  subject: string;
+}
+
+/** 저장소 하나의 변경 요약 */
+export interface RepoChange {
+  name: string;
+  files: ChangedFile[];
+  insertions: number;
+  deletions: number;
+  commits: NewCommit[];
+  /** 실행 중에 새로 클론된 저장소 */
+  isNewRepo: boolean;
+}
+
+/**
+ * 저장소에서 git 명령을 실행하고 stdout을 반환합니다.
+ */
+export async function runGit(
+  repoPath: string,
+  args: string[],
+  env?: Record<string, string>,
+): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", repoPath, ...args], {
+    maxBuffer: 10 * 1024 * 1024,
+    env: env ? { ...process.env, ...env } : undefined,
+  });
+  return stdout;
+}
+
+/**
+ * `git diff --numstat` 출력을 파싱합니다.
+ */
+function parseNumstat(output: string): Map<string, string> {
+  const stats = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const [insertions, deletions, ...pathParts] = line.split("\t");
+    if (pathParts.length > 0) {
+      stats.set(pathParts.join("\t"), `${insertions}\t${deletions}`);
+    }
+  }
+  return stats;
+}
+
+/**
+ * 저장소 하나의 상태를 찍습니다.
+ *
+ * @param baseHead diff 기준 커밋 (생략하면 현재 HEAD)
+ * @param withStash 커밋되지 않은 변경을 stash 커밋으로 남길지 (되돌리기용, 작업 트리는 그대로)
+ */
+async function snapshotRepo(
+  name: string,
+  repoPath: string,
+  baseHead?: string | null,
+  withStash: boolean = false,
+): Promise<RepoSnapshot> {
+  let head: string | null = null;
+  try {
+    head = (await runGit(repoPath, ["rev-parse", "HEAD"])).trim();
+  } catch {
+    // 커밋이 하나도 없는 저장소
+  }
+
+  const base = baseHead ?? head;
+  const diffStats = base
+    ? parseNumstat(await runGit(repoPath, ["diff", "--numstat", "--no-renames", base]))
+    : new Map<string, string>();
+  const untracked = new Set(
+    (await runGit(repoPath, ["ls-files", "--others", "--exclude-standard"]))
+      .split("\n")
+      .filter(Boolean),
+  );
+
+  const branch = (await runGit(repoPath, ["branch", "--show-current"])).trim() || null;
+  const stash = withStash ? (await runGit(repoPath, ["stash", "create"])).trim() || null : null;
+
+  return { name, path: repoPath, head, branch, stash, diffStats, untracked };
+}
+
+/**
+ * 디렉토리 바로 아래의 git 저장소 목록을 반환합니다.
+ */
+function findRepos(rootDir: string): Array<{ name: string; path: string }> {
+  if (!existsSync(rootDir)) {
+    return [];
+  }
+
+  return readdirSync(rootDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(rootDir, entry.name, ".git")))
+    .map((entry) => ({ name: entry.name, path: join(rootDir, entry.name) }));
+}
+
+/**
+ * 실행 전 상태를 찍습니다.
+ *
+ * @param rootDir Claude의 작업 디렉토리 (CLAUDE_CWD 또는 스레드 작업 공간)
+ */
+export async function snapshotRepos(rootDir: string): Promise<RepoSnapshot[]> {
+  const snapshots: RepoSnapshot[] = [];
+  for (const repo of findRepos(rootDir)) {
+    try {
+      snapshots.push(await snapshotRepo(repo.name, repo.path, undefined, true));
+    } catch (error) {
+      logger.warn("git 상태 확인 실패", { repo: repo.name, error });
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * 실행 후 상태를 실행 전 스냅샷과 비교해 변경 요약을 만듭니다.
+ * 바뀐 것이 없는 저장소는 결과에서 빠집니다.
+ */
+export async function summarizeRepoChanges(
+  rootDir: string,
+  before: RepoSnapshot[],
+): Promise<RepoChange[]> {
+  const changes: RepoChange[] = [];
+
+  for (const repo of findRepos(rootDir)) {
+    const previous = before.find((snapshot) => snapshot.path === repo.path);
+
+    try {
+      const after = await snapshotRepo(repo.name, repo.path, previous?.head);
+
+      // 실행 전과 diff 통계가 같은 파일은 이번 실행에서 바뀐 것이 아님
+      const files: ChangedFile[] = [];
+      for (const [path, stat] of after.diffStats) {
+        if (previous?.diffStats.get(path) === stat) {
+          continue;
+        }
+        const [insertions, deletions] = stat.split("\t").map((n) => parseInt(n, 10) || 0);
+        files.push({ path, insertions, deletions, isNew: false });
+      }
+      for (const path of after.untracked) {
+        if (!previous?.untracked.has(path)) {
+          files.push({ path, insertions: 0, deletions: 0, isNew: true });
+        }
+      }
+
+      let commits: NewCommit[] = [];
+      if (previous?.head && after.head && previous.head !== after.head) {
+        const log = await runGit(repo.path, [
+          "log",
+          "--format=%H%x09%an%x09%s",
+          `${previous.head}..${after.head}`,
+        ]);
+        commits = log
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => {
+            const [hash, author, ...subject] = line.split("\t");
+            return { hash, author, subject: subject.join("\t") };
+          });
+      }
+
+      const isNewRepo = !previous;
+      if (files.length === 0 && commits.length === 0 && !isNewRepo) {
+        continue;
+      }
+
+      changes.push({
+        name: repo.name,
+        files,
+        insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        commits,
+        isNewRepo,
+      });
+    } catch (error) {
+      logger.warn("git 변경 사항 확인 실패", { repo: repo.name, error });
+    }
+  }
+
+  return changes;
+}
@@ -7,6 +7,7 @@
 
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
+import { logger } from "./logger";
 
 /** 매핑 파일 구조: 슬랙 유저 ID → GitHub 유저네임 */
 type GitHubUsersConfig = Record<string, string>;
@@ -20,8 +21,10 @@ function loadGitHubUsers(): GitHubUsersConfig {
   const configPath = join(projectRoot, "github-users.json");
 
   if (!existsSync(configPath)) {
-    console.warn(`⚠️ GitHub 사용자 매핑 파일이 없습니다: ${configPath}`);
-    console.warn("   github-users.example.json을 참고하여 github-users.json을 생성하세요.");
+    logger.warn(
+      "GitHub 사용자 매핑 파일이 없습니다. github-users.example.json을 참고하여 github-users.json을 생성하세요.",
+      { configPath },
+    );
     return {};
   }
 
@@ -29,7 +32,7 @@ function loadGitHubUsers(): GitHubUsersConfig {
     const content = readFileSync(configPath, "utf-8");
     return JSON.parse(content);
   } catch (error) {
-    console.error("❌ GitHub 사용자 매핑 파일 파싱 실패:", error);
+    logger.error("GitHub 사용자 매핑 파일 파싱 실패", { error });
     return {};
   }
 }
@@ -0,0 +1,576 @@
+/**
+ * 봇 UI 문구 카탈로그 (한국어/영어)
+ *
+ * 슬랙에 보내는 메시지, 버튼, 창의 문구를 언어별로 모았습니다.
+ * 한국어 카탈로그가 기준이며, 다른 언어 카탈로그는 같은 키를 모두 채워야 타입 검사를 통과합니다.
+ * 유저마다 어떤 언어를 쓸지는 user-locales.ts에서 정합니다.
+ */
+
+import type { ChannelPolicy } from "./channel-policies";
+import type { QuotaViolation } from "./quota-manager";
+
+/** 지원하는 언어 */
+export type Locale = "ko" | "en";
+
+export const SUPPORTED_LOCALES: Locale[] = ["ko", "en"];
+
+/**
+ * 언어 문자열을 지원하는 언어로 바꿉니다. 슬랙 프로필의 "ko-KR", "en-US" 같은 값도 받습니다.
+ * 지원하지 않는 언어면 null을 반환합니다.
+ */
+export function parseLocale(value: string | null | undefined): Locale | null {
+  const language = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find((locale) => locale === language) ?? null;
+}
+
+/**
+ * 유저의 언어를 알 수 없을 때 쓸 기본 언어를 반환합니다. (DEFAULT_LOCALE 환경 변수, 기본 ko)
+ */
+export function getDefaultLocale(): Locale {
+  return parseLocale(process.env.DEFAULT_LOCALE) ?? "ko";
+}
+
+type PermissionMode = ChannelPolicy["permissionMode"];
+type QuotaKind = QuotaViolation["kind"];
+type QuotaScope = QuotaViolation["scope"];
+
+// ============================================================================
+// 한국어
+// ============================================================================
+
+const ko = {
+  duration: (minutes: number, seconds: number) =>
+    minutes > 0 ? `${minutes}분 ${seconds}초` : `${seconds}초`,
+  decimalSeconds: (seconds: string) => `${seconds}초`,
+  stopButton: "🛑 멈춰!",
+  cancelButton: "❌ 취소",
+
+  metadata: {
+    running: (duration: string, toolCallCount: number) =>
+      `${duration} 경과, 도구 ${toolCallCount}회 호출`,
+    finished: (duration: string, toolCallCount: number) =>
+      `${duration} 소요, 도구 ${toolCallCount}회 호출`,
+    usage: (inputTokens: string, outputTokens: string) =>
+      `, 토큰 입력 ${inputTokens} / 출력 ${outputTokens}`,
+    permission: (mode: string, tools: string) => `, 권한: ${mode}${tools}`,
+    permissionModes: {
+      bypassPermissions: "전체",
+      acceptEdits: "편집 허용",
+      default: "제한",
+    } as Record<PermissionMode, string>,
+  },
+
+  run: {
+    emptyMention: "무엇을 도와드릴까요? 메시지를 함께 보내주세요!",
+    skippedAttachments: "📎 다음 첨부 파일은 받지 못해서 제외했어요.",
+    attachmentsOnlyQuery: "첨부한 파일을 확인해주세요.",
+    attachmentUnavailable: "파일 정보를 가져올 수 없음",
+    attachmentTooLarge: (maxMegabytes: number) => `${maxMegabytes}MB 초과`,
+    attachmentUnsupported: (mimetype: string) => `지원하지 않는 형식 (${mimetype})`,
+    attachmentDownloadFailed: "다운로드 실패",
+    thinking: "🤔 생각하는 중...",
+    working: "⏳ 작업 중...",
+    workingFallback: "작업 중...",
+    error: "❌ 오류가 발생했습니다:",
+    errorFallback: "오류가 발생했습니다.",
+    errorDisplayFailed: "오류 발생 (상세 표시 실패)",
+    aborted: "⏹️ 작업이 중단되었습니다.",
+    abortedFallback: "작업이 중단되었습니다.",
+    codeBlockAttached: (filename: string) => `📄 _코드 블록은 \`${filename}\` 파일로 첨부했어요._`,
+    fullResultTitle: "전체 결과",
+    attachedFiles: (links: string) => `📎 첨부 파일: ${links}`,
+  },
+
+  git: {
+    title: "*📝 변경 사항*",
+    cloned: "새로 클론됨",
+    summary: (fileCount: number, insertions: number, deletions: number) =>
+      `파일 ${fileCount}개, +${insertions} −${deletions}`,
+    newFile: "새 파일",
+    moreFiles: (count: number) => `_외 ${count}개 파일_`,
+    moreCommits: (count: number) => `_외 ${count}개 커밋_`,
+  },
+
+  timeline: {
+    hiddenSteps: (count: number) => `_… 앞선 단계 ${count}개_`,
+    button: "📜 작업 내역",
+    modalTitle: "작업 내역",
+    modalClose: "닫기",
+    request: "*요청*",
+    summary: (toolCallCount: number, duration: string, failedCount: number) =>
+      `도구 ${toolCallCount}회 호출, 도구 실행 ${duration}${failedCount > 0 ? `, 실패 ${failedCount}회` : ""}`,
+    noSteps: "_도구를 호출하지 않았어요._",
+    omittedSteps: (count: number) => `_외 ${count}단계는 생략했어요._`,
+    unavailable: "오래되었거나 앱이 재시작되어 이 작업의 내역이 남아 있지 않아요.",
+  },
+
+  plan: {
+    title: (completedCount: number, totalCount: number) =>
+      `*📋 계획* _(${completedCount}/${totalCount} 완료)_`,
+    moreItems: (count: number) => `_외 ${count}개_`,
+    toolInput: (completedCount: number, totalCount: number) =>
+      `${completedCount}/${totalCount} 완료`,
+  },
+
+  revert: {
+    button: "↩️ 되돌리기",
+    confirmTitle: "이 작업을 되돌릴까요?",
+    confirmText:
+      "이번 실행이 바꾼 파일만 실행 전 내용으로 되돌리고, 실행 중에 만든 파일은 지웁니다. 이미 푸시된 커밋은 revert 커밋을 만들며, 푸시는 따로 확인한 뒤에 합니다.",
+    confirm: "되돌리기",
+    deny: "취소",
+    done: (mention: string) => `↩️ ${mention}님이 작업을 되돌렸어요.`,
+    partiallyFailed: (mention: string) =>
+      `⚠️ ${mention}님이 작업을 되돌리려 했지만 일부 저장소에서 실패했어요. 다시 시도하거나 서버에서 확인해주세요.`,
+    doneFallback: "작업을 되돌렸어요.",
+    partiallyFailedFallback: "일부 저장소를 되돌리지 못했어요.",
+    busy: "진행 중인 작업이 있어 지금은 저장소를 건드릴 수 없어요. 모든 작업이 끝난 뒤 다시 눌러주세요.",
+    unavailable: "이미 되돌렸거나 너무 오래되어 되돌릴 수 없는 작업이에요.",
+    pushPending:
+      "⬆️ 이미 푸시된 커밋은 revert 커밋을 만들어 두었어요. 원격 저장소에도 반영하려면 푸시 버튼을 눌러주세요.",
+    pushButton: "⬆️ 푸시",
+    pushConfirmTitle: "revert 커밋을 푸시할까요?",
+    pushConfirmText:
+      "되돌리면서 만든 revert 커밋을 원격 저장소에 푸시합니다. 같은 저장소를 쓰는 모두에게 바로 반영됩니다.",
+    pushConfirm: "푸시",
+    pushed: (mention: string) => `⬆️ ${mention}님이 revert 커밋을 푸시했어요.`,
+    pushFailed: (mention: string) =>
+      `⚠️ ${mention}님이 revert 커밋을 푸시하려 했지만 일부 저장소에서 실패했어요. 다시 누르거나 서버에서 확인해주세요.`,
+    pushedFallback: "revert 커밋을 푸시했어요.",
+    pushFailedFallback: "일부 저장소에 revert 커밋을 푸시하지 못했어요.",
+    pushUnavailable: "이미 푸시했거나 푸시할 revert 커밋이 없어요.",
+    stepCheckout: (branch: string) => `\`${branch}\` 브랜치로 전환`,
+    stepReset: (hash: string, count: number) => `\`${hash}\`로 reset (커밋 ${count}개 제거)`,
+    stepRevertCommits: (count: number) => `revert 커밋 ${count}개 생성`,
+    stepRestoreFiles: (count: number) => `파일 ${count}개 복원`,
+    stepRemoveFiles: (count: number) => `새 파일 ${count}개 삭제`,
+    stepNothing: "바뀐 파일 없음",
+    stepPushed: "푸시",
+  },
+
+  approval: {
+    request: (command: string, timeout: string) =>
+      `🔐 다음 명령을 실행하려면 승인이 필요합니다.\n\`\`\`${command}\`\`\`\n${timeout} 안에 응답이 없으면 자동으로 거부됩니다.`,
+    approveButton: "✅ 승인",
+    denyButton: "🚫 거부",
+    fallback: (command: string) => `승인이 필요합니다: ${command}`,
+    autoDenied: "🚫 *자동 거부됨*",
+    approvedBy: (mention: string) => `✅ *${mention}님이 승인함*`,
+    deniedBy: (mention: string) => `🚫 *${mention}님이 거부함*`,
+    timedOutReason: (seconds: number) => `${seconds}초 동안 승인 응답이 없어 거부되었습니다.`,
+    approvedReason: (mention: string) => `${mention}님이 승인했습니다.`,
+    deniedReason: (mention: string) =>
+      `${mention}님이 거부했습니다. 이 명령을 실행하지 말고 다른 방법을 찾거나 사용자에게 물어보세요.`,
+    cancelledReason: "작업이 중단되었습니다.",
+    noMessageReason: "승인을 요청할 슬랙 메시지를 찾지 못해 거부되었습니다.",
+  },
+
+  queue: {
+    position: (position: number) =>
+      position === 1 ? "다음 순서입니다" : `${position}번째 순서입니다`,
+    waiting: (position: string) =>
+      `📋 현재 다른 작업을 처리 중이에요. ${position}.\n바로 처리하고 싶으면 "즉시 처리" 버튼을 눌러주세요.`,
+    waitingGlobal: (globalPosition: number, threadPosition: string | null) =>
+      `📋 다른 스레드의 작업들을 처리 중이에요. 전체 대기열에서 ${globalPosition}번째 순서입니다.${threadPosition ? ` (이 스레드에서는 ${threadPosition})` : ""}`,
+    fallback: (position: string) => `큐잉됨 (${position})`,
+    globalFallback: (globalPosition: number) => `큐잉됨 (전체 대기열 ${globalPosition}번째)`,
+    processNowButton: "⚡ 즉시 처리",
+    resumePosition: (position: number) =>
+      position === 1 ? "곧 처리를 시작합니다" : `${position}번째 순서입니다`,
+    resuming: (position: string) => `🔄 봇이 재시작되어 요청을 이어서 처리합니다. ${position}.`,
+    resumingFallback: (position: string) => `재시작 후 이어서 처리 (${position})`,
+    cancelled: "🚫 요청이 취소되었습니다.",
+    cancelledFallback: "요청이 취소되었습니다.",
+    poolFull: (maxConcurrent: number) =>
+      `동시에 실행할 수 있는 작업 수(${maxConcurrent}개)가 가득 차서 바로 처리할 수 없어요. 이 스레드에서 가장 먼저 처리되도록 순서를 올렸어요.`,
+  },
+
+  quota: {
+    owners: { user: "회원님", channel: "이 채널" } as Record<QuotaScope, string>,
+    limits: {
+      runsPerHour: (limit: number) => `시간당 실행 한도(${limit}회)`,
+      runtimeMinutesPerDay: (limit: number) => `하루 실행 시간 한도(${limit}분)`,
+      toolCallsPerRun: (limit: number) => `실행당 도구 호출 한도(${limit}회)`,
+    } as Record<QuotaKind, (limit: number) => string>,
+    stopped: (owner: string, limitLabel: string) =>
+      `⛔ ${owner}의 ${limitLabel}를 넘어 작업을 중단했어요.\n지금까지의 변경 사항은 그대로 남아 있어요. 작업을 더 작게 나눠서 다시 요청해주세요.`,
+    rejected: (owner: string, limitLabel: string) =>
+      `⛔ ${owner}의 ${limitLabel}에 도달해서 지금은 요청을 처리할 수 없어요.\n모두가 같은 Claude 계정을 쓰고 있어서 한 사람이나 한 채널이 사용량을 다 쓰지 않도록 한도를 두고 있어요.`,
+    resetAt: (date: string) => `🔄 ${date}부터 다시 요청할 수 있어요.`,
+    fallback: (limitLabel: string) => `${limitLabel} 초과`,
+  },
+
+  access: {
+    user: "🔒 바이브 코더를 사용할 수 있는 사람으로 등록되어 있지 않아요. 서버에서 명령을 실행할 수 있는 봇이라 허용된 사람만 쓸 수 있어요. 필요하면 관리자에게 요청해주세요.",
+    channel:
+      "🔒 이 채널에서는 바이브 코더를 사용할 수 없어요. 허용된 채널에서 요청하거나, 필요하면 관리자에게 이 채널을 추가해달라고 요청해주세요.",
+    fallback: "바이브 코더를 사용할 수 없어요.",
+  },
+
+  threads: {
+    thread: (threadTs: string) => `*스레드 \`${threadTs}\`*`,
+    processing: "⏳ 처리 중",
+    processingQuery: (query: string) => `⏳ 처리 중: ${query}`,
+    queued: (index: number, query: string) => `📋 대기 ${index}: ${query}`,
+    noActiveThreads: "처리 중이거나 대기 중인 스레드가 없습니다.",
+    moreThreads: (count: number) => `_외 ${count}개 스레드_`,
+    moreQueued: (count: number) => `_외 ${count}개 대기 중_`,
+    runStats: (duration: string, toolCallCount: number) => `${duration}, 도구 ${toolCallCount}회`,
+  },
+
+  vibe: {
+    help: [
+      "*/vibe 사용법*",
+      "• `/vibe status` 처리 중이거나 대기 중인 스레드 목록",
+      "• `/vibe status <스레드>` 스레드 하나의 상태",
+      "• `/vibe sessions` 저장된 Claude 세션 목록",
+      "• `/vibe cancel <스레드>` 스레드의 대기 중인 요청을 모두 취소",
+      "• `/vibe reset <스레드>` 스레드의 Claude 세션을 초기화 (다음 요청부터 새 대화)",
+      "• `/vibe usage [일수]` 최근 며칠간 유저/채널별 토큰·비용 사용량 (기본 7일)",
+      "• `/vibe lang [ko|en|auto]` 바이브 코더가 나에게 쓰는 언어 (auto: 슬랙 언어 설정을 따름)",
+      "",
+      "_<스레드>에는 스레드 타임스탬프(예: 1700000000.123456)나 메시지 링크를 넣을 수 있습니다._",
+    ].join("\n"),
+    helpFallback: "/vibe 사용법",
+    statusTitle: "*🤖 바이브 코더 상태*",
+    statusSummary: (active: number, max: number, waiting: number, sessionCount: number) =>
+      `실행 중 ${active}/${max}, 전체 대기 스레드 ${waiting}개, 저장된 세션 ${sessionCount}개`,
+    statusFallback: (threadCount: number) => `바이브 코더 상태: 스레드 ${threadCount}개`,
+    threadIdle: "💤 처리 중이거나 대기 중인 요청이 없습니다.",
+    claudeSession: (sessionId: string) => `🧠 Claude 세션: \`${sessionId}\``,
+    noClaudeSession: "🧠 Claude 세션: 아직 없음",
+    lastActivity: (date: string) => `🕒 마지막 활동: ${date}`,
+    workspace: (path: string) => `🌳 작업 공간: \`${path}\``,
+    noSavedSession: "🧠 저장된 세션이 없습니다.",
+    threadFallback: (threadTs: string) => `스레드 ${threadTs} 상태`,
+    sessionsTitle: (count: number) => `*🧠 저장된 세션 ${count}개*`,
+    sessionMissing: "_세션 없음_",
+    moreSessions: (count: number) => `_외 ${count}개 (최근 활동 순)_`,
+    sessionsFallback: (count: number) => `저장된 세션 ${count}개`,
+    usageTotals: (cost: string, runs: number, inputTokens: string, outputTokens: string) =>
+      `${cost} · 실행 ${runs}회 · 토큰 입력 ${inputTokens} / 출력 ${outputTokens}`,
+    usagePeriod: (days: number, since: string) =>
+      days === 1 ? "오늘" : `최근 ${days}일 (${since}부터)`,
+    usageTitle: (period: string) => `*💸 ${period} 사용량*`,
+    usageEmpty: "기록된 사용량이 없습니다.",
+    usageByUser: "*유저별*",
+    usageByChannel: "*채널별*",
+    usageFallback: (period: string) => `${period} 사용량`,
+    threadRequired: (subcommand: string) =>
+      `스레드를 알려주세요. 예: \`/vibe ${subcommand} <스레드 링크>\``,
+    cancelledQueued: (threadTs: string, count: number) =>
+      `🚫 스레드 \`${threadTs}\`의 대기 중인 요청 ${count}개를 취소했습니다.`,
+    nothingQueued: (threadTs: string) => `스레드 \`${threadTs}\`에 대기 중인 요청이 없습니다.`,
+    resetBusy: '⚠️ 처리 중인 작업이 있어 초기화할 수 없어요. "멈춰!" 버튼으로 먼저 중단해주세요.',
+    noSessionToReset: (threadTs: string) => `스레드 \`${threadTs}\`에 저장된 세션이 없습니다.`,
+    sessionReset: (threadTs: string) =>
+      `🧹 스레드 \`${threadTs}\`의 Claude 세션을 초기화했습니다. 다음 요청부터 새 대화로 시작합니다.`,
+    languageStatus: (language: string, isExplicit: boolean) =>
+      isExplicit
+        ? `🌐 지금 언어: ${language} (직접 설정함). \`/vibe lang auto\`로 슬랙 언어 설정을 따르게 할 수 있어요.`
+        : `🌐 지금 언어: ${language} (슬랙 언어 설정을 따름). \`/vibe lang en\`처럼 직접 고를 수 있어요.`,
+    languageSet: (language: string) => `🌐 앞으로 ${language}로 안내할게요.`,
+    languageAuto: "🌐 앞으로 슬랙 언어 설정에 맞춰 안내할게요.",
+    languageUnknown: (value: string) =>
+      `지원하지 않는 언어예요: \`${value}\`. \`ko\`, \`en\`, \`auto\` 중에서 골라주세요.`,
+    languageNames: { ko: "한국어", en: "영어" } as Record<Locale, string>,
+  },
+
+  home: {
+    header: "🤖 바이브 코더",
+    noVersion: "버전 정보 없음",
+    running: (active: number, max: number) => `실행 중 ${active}/${max}`,
+    waitingThreads: (count: number) => `전체 대기 스레드 ${count}개`,
+    updatedAt: (date: string) => `갱신 ${date}`,
+    activeTitle: "*진행 중인 작업*",
+    progress: (duration: string, toolCallCount: number) =>
+      `_경과 ${duration}, 도구 ${toolCallCount}회_`,
+    recentTitle: "*최근 실행*",
+    noRecentRuns: "아직 끝난 실행이 없습니다.",
+  },
+};
+
+/** 언어 하나의 문구 카탈로그 */
+export type Messages = typeof ko;
+
+// ============================================================================
+// 영어
+// ============================================================================
+
+/**
+ * 개수에 맞는 영어 단수/복수 표현을 만듭니다.
+ * 예: (1, "run") → "1 run", (3, "run") → "3 runs"
+ */
+function plural(count: number, noun: string, pluralNoun: string = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : pluralNoun}`;
+}
+
+/**
+ * 영어 서수를 만듭니다. 예: 1 → "1st", 2 → "2nd", 11 → "11th"
+ */
+function ordinal(position: number): string {
+  const tens = position % 100;
+  const suffix =
+    tens >= 11 && tens <= 13 ? "th" : (["th", "st", "nd", "rd"][position % 10] ?? "th");
+  return `${position}${suffix}`;
+}
+
+const en: Messages = {
+  duration: (minutes: number, seconds: number) =>
+    minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`,
+  decimalSeconds: (seconds: string) => `${seconds}s`,
+  stopButton: "🛑 Stop!",
+  cancelButton: "❌ Cancel",
+
+  metadata: {
+    running: (duration, toolCallCount) =>
+      `${duration} elapsed, ${plural(toolCallCount, "tool call")}`,
+    finished: (duration, toolCallCount) =>
+      `Took ${duration}, ${plural(toolCallCount, "tool call")}`,
+    usage: (inputTokens, outputTokens) => `, tokens in ${inputTokens} / out ${outputTokens}`,
+    permission: (mode, tools) => `, permissions: ${mode}${tools}`,
+    permissionModes: {
+      bypassPermissions: "full",
+      acceptEdits: "edits allowed",
+      default: "restricted",
+    },
+  },
+
+  run: {
+    emptyMention: "How can I help? Please include a message with your mention!",
+    skippedAttachments: "📎 I couldn't take these attachments, so I left them out.",
+    attachmentsOnlyQuery: "Please take a look at the attached files.",
+    attachmentUnavailable: "couldn't get the file info",
+    attachmentTooLarge: (maxMegabytes) => `larger than ${maxMegabytes}MB`,
+    attachmentUnsupported: (mimetype) => `unsupported type (${mimetype})`,
+    attachmentDownloadFailed: "download failed",
+    thinking: "🤔 Thinking...",
+    working: "⏳ Working...",
+    workingFallback: "Working...",
+    error: "❌ Something went wrong:",
+    errorFallback: "Something went wrong.",
+    errorDisplayFailed: "Something went wrong (could not show details)",
+    aborted: "⏹️ The run was stopped.",
+    abortedFallback: "The run was stopped.",
+    codeBlockAttached: (filename) => `📄 _Attached the code block as \`${filename}\`._`,
+    fullResultTitle: "Full result",
+    attachedFiles: (links) => `📎 Attachments: ${links}`,
+  },
+
+  git: {
+    title: "*📝 Changes*",
+    cloned: "newly cloned",
+    summary: (fileCount, insertions, deletions) =>
+      `${plural(fileCount, "file")}, +${insertions} −${deletions}`,
+    newFile: "new file",
+    moreFiles: (count) => `_${plural(count, "more file")}_`,
+    moreCommits: (count) => `_${plural(count, "more commit")}_`,
+  },
+
+  timeline: {
+    hiddenSteps: (count) => `_… ${plural(count, "earlier step")}_`,
+    button: "📜 Run history",
+    modalTitle: "Run history",
+    modalClose: "Close",
+    request: "*Request*",
+    summary: (toolCallCount, duration, failedCount) =>
+      `${plural(toolCallCount, "tool call")}, ${duration} in tools${failedCount > 0 ? `, ${failedCount} failed` : ""}`,
+    noSteps: "_No tools were called._",
+    omittedSteps: (count) => `_${plural(count, "more step")} omitted._`,
+    unavailable:
+      "The history of this run is no longer available (it is too old or the app restarted).",
+  },
+
+  plan: {
+    title: (completedCount, totalCount) => `*📋 Plan* _(${completedCount}/${totalCount} done)_`,
+    moreItems: (count) => `_${count} more_`,
+    toolInput: (completedCount, totalCount) => `${completedCount}/${totalCount} done`,
+  },
+
+  revert: {
+    button: "↩️ Revert",
+    confirmTitle: "Revert this run?",
+    confirmText:
+      "Only the files this run changed go back to how they were before it, and files it created are deleted. Commits that were already pushed are undone with revert commits, which are pushed only after you confirm separately.",
+    confirm: "Revert",
+    deny: "Cancel",
+    done: (mention) => `↩️ ${mention} reverted the run.`,
+    partiallyFailed: (mention) =>
+      `⚠️ ${mention} tried to revert the run, but some repositories failed. Try again or check on the server.`,
+    doneFallback: "Reverted the run.",
+    partiallyFailedFallback: "Some repositories could not be reverted.",
+    busy: "Other runs are in progress, so the repositories can't be touched right now. Please try again when they finish.",
+    unavailable: "This run was already reverted or is too old to revert.",
+    pushPending:
+      "⬆️ Commits that were already pushed have been undone with revert commits. Press Push to update the remote too.",
+    pushButton: "⬆️ Push",
+    pushConfirmTitle: "Push the revert commits?",
+    pushConfirmText:
+      "The revert commits are pushed to the remote repository. Everyone using it will get them right away.",
+    pushConfirm: "Push",
+    pushed: (mention) => `⬆️ ${mention} pushed the revert commits.`,
+    pushFailed: (mention) =>
+      `⚠️ ${mention} tried to push the revert commits, but some repositories failed. Press it again or check on the server.`,
+    pushedFallback: "Pushed the revert commits.",
+    pushFailedFallback: "Some revert commits could not be pushed.",
+    pushUnavailable: "The revert commits were already pushed, or there is nothing to push.",
+    stepCheckout: (branch) => `switched to \`${branch}\``,
+    stepReset: (hash, count) => `reset to \`${hash}\` (removed ${plural(count, "commit")})`,
+    stepRevertCommits: (count) => `created ${plural(count, "revert commit")}`,
+    stepRestoreFiles: (count) => `restored ${plural(count, "file")}`,
+    stepRemoveFiles: (count) => `deleted ${plural(count, "new file")}`,
+    stepNothing: "no files changed",
+    stepPushed: "pushed",
+  },
+
+  approval: {
+    request: (command, timeout) =>
+      `🔐 This command needs approval before it runs.\n\`\`\`${command}\`\`\`\nIt will be denied automatically if nobody answers within ${timeout}.`,
+    approveButton: "✅ Approve",
+    denyButton: "🚫 Deny",
+    fallback: (command) => `Approval needed: ${command}`,
+    autoDenied: "🚫 *Denied automatically*",
+    approvedBy: (mention) => `✅ *Approved by ${mention}*`,
+    deniedBy: (mention) => `🚫 *Denied by ${mention}*`,
+    timedOutReason: (seconds) =>
+      `Denied because nobody answered the approval request within ${seconds} seconds.`,
+    approvedReason: (mention) => `Approved by ${mention}.`,
+    deniedReason: (mention) =>
+      `Denied by ${mention}. Do not run this command; find another way or ask the user.`,
+    cancelledReason: "The run was stopped.",
+    noMessageReason: "Denied because the Slack message to ask for approval could not be found.",
+  },
+
+  queue: {
+    position: (position) =>
+      position === 1 ? "You're next" : `You're ${ordinal(position)} in line`,
+    waiting: (position) =>
+      `📋 I'm working on another request. ${position}.\nPress "Process now" if you want this handled right away.`,
+    waitingGlobal: (globalPosition, threadPosition) =>
+      `📋 I'm busy with requests from other threads. You're ${ordinal(globalPosition)} in the overall queue.${threadPosition ? ` (In this thread: ${threadPosition})` : ""}`,
+    fallback: (position) => `Queued (${position})`,
+    globalFallback: (globalPosition) => `Queued (${ordinal(globalPosition)} overall)`,
+    processNowButton: "⚡ Process now",
+    resumePosition: (position) =>
+      position === 1 ? "Starting shortly" : `You're ${ordinal(position)} in line`,
+    resuming: (position) => `🔄 The bot restarted and will pick up your request. ${position}.`,
+    resumingFallback: (position) => `Resuming after restart (${position})`,
+    cancelled: "🚫 The request was cancelled.",
+    cancelledFallback: "The request was cancelled.",
+    poolFull: (maxConcurrent) =>
+      `All ${plural(maxConcurrent, "run slot")} are busy, so this can't start right away. I moved it to the front of this thread's queue.`,
+  },
+
+  quota: {
+    owners: { user: "your", channel: "this channel's" },
+    limits: {
+      runsPerHour: (limit) => `hourly run limit (${plural(limit, "run")})`,
+      runtimeMinutesPerDay: (limit) => `daily runtime limit (${plural(limit, "minute")})`,
+      toolCallsPerRun: (limit) => `per-run tool call limit (${plural(limit, "call")})`,
+    },
+    stopped: (owner, limitLabel) =>
+      `⛔ I stopped because the run went over ${owner} ${limitLabel}.\nChanges made so far are kept. Please split the task into smaller requests and try again.`,
+    rejected: (owner, limitLabel) =>
+      `⛔ I can't take requests right now because ${owner} ${limitLabel} has been reached.\nEveryone shares the same Claude account, so limits keep one person or channel from using it all up.`,
+    resetAt: (date) => `🔄 You can make requests again from ${date}.`,
+    fallback: (limitLabel) => `Exceeded the ${limitLabel}`,
+  },
+
+  access: {
+    user: "🔒 You're not registered as a Vibe Coder user. This bot can run commands on the server, so only allowed people can use it. Ask an admin if you need access.",
+    channel:
+      "🔒 Vibe Coder can't be used in this channel. Make your request in an allowed channel, or ask an admin to add this one.",
+    fallback: "You can't use Vibe Coder here.",
+  },
+
+  threads: {
+    thread: (threadTs) => `*Thread \`${threadTs}\`*`,
+    processing: "⏳ Processing",
+    processingQuery: (query) => `⏳ Processing: ${query}`,
+    queued: (index, query) => `📋 Queued ${index}: ${query}`,
+    noActiveThreads: "No threads are processing or waiting.",
+    moreThreads: (count) => `_${plural(count, "more thread")}_`,
+    moreQueued: (count) => `_${count} more queued_`,
+    runStats: (duration, toolCallCount) => `${duration}, ${plural(toolCallCount, "tool call")}`,
+  },
+
+  vibe: {
+    help: [
+      "*How to use /vibe*",
+      "• `/vibe status` threads that are processing or waiting",
+      "• `/vibe status <thread>` status of one thread",
+      "• `/vibe sessions` saved Claude sessions",
+      "• `/vibe cancel <thread>` cancel every waiting request in a thread",
+      "• `/vibe reset <thread>` reset a thread's Claude session (the next request starts a new conversation)",
+      "• `/vibe usage [days]` token and cost usage per user and channel over the last few days (default 7)",
+      "• `/vibe lang [ko|en|auto]` the language Vibe Coder uses with you (auto: follow your Slack language)",
+      "",
+      "_<thread> can be a thread timestamp (e.g. 1700000000.123456) or a message link._",
+    ].join("\n"),
+    helpFallback: "How to use /vibe",
+    statusTitle: "*🤖 Vibe Coder status*",
+    statusSummary: (active, max, waiting, sessionCount) =>
+      `Running ${active}/${max}, ${plural(waiting, "waiting thread")}, ${plural(sessionCount, "saved session")}`,
+    statusFallback: (threadCount) => `Vibe Coder status: ${plural(threadCount, "thread")}`,
+    threadIdle: "💤 Nothing is processing or waiting.",
+    claudeSession: (sessionId) => `🧠 Claude session: \`${sessionId}\``,
+    noClaudeSession: "🧠 Claude session: none yet",
+    lastActivity: (date) => `🕒 Last activity: ${date}`,
+    workspace: (path) => `🌳 Workspace: \`${path}\``,
+    noSavedSession: "🧠 No saved session.",
+    threadFallback: (threadTs) => `Thread ${threadTs} status`,
+    sessionsTitle: (count) => `*🧠 ${plural(count, "saved session")}*`,
+    sessionMissing: "_no session_",
+    moreSessions: (count) => `_${count} more (most recent first)_`,
+    sessionsFallback: (count) => plural(count, "saved session"),
+    usageTotals: (cost, runs, inputTokens, outputTokens) =>
+      `${cost} · ${plural(runs, "run")} · tokens in ${inputTokens} / out ${outputTokens}`,
+    usagePeriod: (days, since) => (days === 1 ? "today" : `last ${days} days (since ${since})`),
+    usageTitle: (period) => `*💸 Usage, ${period}*`,
+    usageEmpty: "No usage recorded.",
+    usageByUser: "*By user*",
+    usageByChannel: "*By channel*",
+    usageFallback: (period) => `Usage, ${period}`,
+    threadRequired: (subcommand) =>
+      `Please tell me which thread. e.g. \`/vibe ${subcommand} <thread link>\``,
+    cancelledQueued: (threadTs, count) =>
+      `🚫 Cancelled ${plural(count, "waiting request")} in thread \`${threadTs}\`.`,
+    nothingQueued: (threadTs) => `No requests are waiting in thread \`${threadTs}\`.`,
+    resetBusy:
+      '⚠️ A run is in progress, so the session can\'t be reset. Stop it first with the "Stop!" button.',
+    noSessionToReset: (threadTs) => `Thread \`${threadTs}\` has no saved session.`,
+    sessionReset: (threadTs) =>
+      `🧹 Reset the Claude session of thread \`${threadTs}\`. The next request starts a new conversation.`,
+    languageStatus: (language, isExplicit) =>
+      isExplicit
+        ? `🌐 Current language: ${language} (set by you). Use \`/vibe lang auto\` to follow your Slack language.`
+        : `🌐 Current language: ${language} (follows your Slack language). You can pick one, e.g. \`/vibe lang ko\`.`,
+    languageSet: (language) => `🌐 I'll use ${language} from now on.`,
+    languageAuto: "🌐 I'll follow your Slack language from now on.",
+    languageUnknown: (value) =>
+      `Unsupported language: \`${value}\`. Choose one of \`ko\`, \`en\` or \`auto\`.`,
+    languageNames: { ko: "Korean", en: "English" },
+  },
+
+  home: {
+    header: "🤖 Vibe Coder",
+    noVersion: "no version info",
+    running: (active, max) => `Running ${active}/${max}`,
+    waitingThreads: (count) => plural(count, "waiting thread"),
+    updatedAt: (date) => `Updated ${date}`,
+    activeTitle: "*Active work*",
+    progress: (duration, toolCallCount) =>
+      `_${duration} elapsed, ${plural(toolCallCount, "tool call")}_`,
+    recentTitle: "*Recent runs*",
+    noRecentRuns: "No runs have finished yet.",
+  },
+};
+
+const CATALOGS: Record<Locale, Messages> = { ko, en };
+
+/**
+ * 언어의 문구 카탈로그를 반환합니다.
+ */
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
@@ -0,0 +1,52 @@
+/**
+ * 로컬 JSON 파일 저장소
+ *
+ * 재시작(pm2 restart, restarter.sh) 후에도 유지되어야 하는 봇 상태를
+ * 프로젝트 디렉토리 아래 data/ 에 JSON 파일로 저장합니다.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { logger } from "./logger";
+
+/**
+ * 데이터 파일 경로를 반환합니다.
+ * DATA_DIR 환경 변수가 있으면 그 아래, 없으면 프로젝트 루트의 data/ 아래입니다.
+ */
+export function getDataFilePath(fileName: string): string {
+  const projectRoot = process.env.PROJECT_DIR || process.cwd();
+  const dataDir = process.env.DATA_DIR || join(projectRoot, "data");
+  return join(dataDir, fileName);
+}
+
+/**
+ * JSON 파일을 읽습니다.
+ * 파일이 없거나 파싱에 실패하면 fallback을 반환합니다.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!existsSync(filePath)) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    logger.error("데이터 파일 파싱 실패", { filePath, error });
+    return fallback;
+  }
+}
+
+/**
+ * JSON 파일을 씁니다.
+ * 쓰는 도중 프로세스가 죽어도 파일이 깨지지 않도록 임시 파일에 쓴 뒤 rename합니다.
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    logger.error("데이터 파일 저장 실패", { filePath, error });
+  }
+}
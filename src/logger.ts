@@ -0,0 +1,135 @@
+/**
+ * 구조화 로거
+ *
+ * 한 줄에 하나의 JSON 객체를 출력합니다. 요청 처리 중의 로그에는
+ * threadTs, messageId, userId, channel을 함께 남겨 한 요청의 흐름을 모아 볼 수 있습니다.
+ *
+ * 요청 처리 단계(queued, started, tool_use, succeeded, failed, aborted)는
+ * `event` 필드에 `run.<단계>`로 남깁니다. restarter.sh는 재시작 후
+ * `run.succeeded` 이벤트가 찍혔는지로 정상 동작을 확인합니다.
+ *
+ * 환경 변수:
+ * - LOG_LEVEL: debug | info | warn | error (기본 info)
+ * - LOG_FORMAT: json | pretty (기본 json, pretty는 로컬 개발용 한 줄 텍스트)
+ */
+
+/** 로그 레벨 */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** 요청 처리 단계 */
+export type RunEvent = "queued" | "started" | "tool_use" | "succeeded" | "failed" | "aborted";
+
+/** 모든 줄에 붙는 요청 식별 정보 */
+export interface LogContext {
+  threadTs?: string;
+  messageId?: string;
+  userId?: string;
+  channel?: string;
+}
+
+/** 줄마다 추가로 남길 필드 */
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// 단계별 로그 레벨 (실패는 warn, 나머지는 info)
+const EVENT_LEVELS: Record<RunEvent, LogLevel> = {
+  queued: "info",
+  started: "info",
+  tool_use: "info",
+  succeeded: "info",
+  failed: "warn",
+  aborted: "info",
+};
+
+/**
+ * 설정된 최소 로그 레벨을 반환합니다.
+ */
+function getMinLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return level && level in LEVEL_ORDER ? level : "info";
+}
+
+/**
+ * Error 객체는 JSON.stringify로 내용이 남지 않으므로 필요한 필드만 꺼냅니다.
+ */
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * 로거 클래스
+ */
+export class Logger {
+  private readonly context: LogContext;
+
+  constructor(context: LogContext = {}) {
+    this.context = context;
+  }
+
+  /**
+   * 요청 식별 정보를 더한 로거를 반환합니다.
+   */
+  child(context: LogContext): Logger {
+    return new Logger({ ...this.context, ...context });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  /**
+   * 요청 처리 단계를 기록합니다.
+   */
+  event(event: RunEvent, fields?: LogFields): void {
+    this.write(EVENT_LEVELS[event], `run.${event}`, { event: `run.${event}`, ...fields });
+  }
+
+  /**
+   * 한 줄을 출력합니다.
+   */
+  private write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[getMinLevel()]) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const details: LogFields = { ...this.context };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        details[key] = serializeValue(value);
+      }
+    }
+
+    const line =
+      process.env.LOG_FORMAT === "pretty"
+        ? `[${time}] ${level.toUpperCase()} ${msg} ${JSON.stringify(details)}`
+        : JSON.stringify({ time, level, msg, ...details });
+
+    if (level === "error") {
+      console.error(line);
+    } else if (level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/** 요청과 무관한 앱 전역 로그용 로거 */
+export const logger = new Logger();
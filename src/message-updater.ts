@@ -0,0 +1,160 @@
+/**
+ * 메시지 업데이트 스케줄러
+ *
+ * 응답 메시지 하나에 대한 chat.update 호출을 한 줄로 세웁니다.
+ * - 동시에 하나의 요청만 보내고, 기다리는 동안 들어온 상태는 마지막 것만 남깁니다.
+ * - 같은 메시지에는 최소 간격(SLACK_UPDATE_INTERVAL_MS, 기본 1초)을 두고 보냅니다.
+ * - 429(rate limit)는 @slack/web-api가 Retry-After를 지켜 내부에서 재시도하므로 따로 다루지 않습니다.
+ * - 최종 상태(결과/에러/중단)는 finish()로 보내며, 이후의 진행 상태는 버려지므로
+ *   최종 상태가 항상 마지막으로 기록됩니다.
+ */
+
+import { logger } from "./logger";
+
+type SlackBlock = Record<string, unknown>;
+
+/** 메시지에 쓸 내용 */
+export interface MessagePayload {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+// Slack client 타입 (chat.update 메서드만 사용)
+interface SlackClient {
+  chat: {
+    update: (args: {
+      channel: string;
+      ts: string;
+      text: string;
+      blocks?: SlackBlock[];
+    }) => Promise<unknown>;
+  };
+}
+
+// 대기 중인 업데이트 (waiters는 finish() 호출자들)
+interface PendingUpdate {
+  payload: MessagePayload;
+  isTerminal: boolean;
+  waiters: Array<{ resolve: () => void; reject: (error: unknown) => void }>;
+}
+
+// 같은 메시지에 대한 업데이트 최소 간격
+const MIN_UPDATE_INTERVAL_MS = parseInt(process.env.SLACK_UPDATE_INTERVAL_MS || "1000", 10);
+
+/**
+ * 메시지 업데이트 스케줄러 클래스
+ *
+ * 응답 메시지 하나마다 하나씩 만듭니다.
+ */
+export class MessageUpdater {
+  private readonly client: SlackClient;
+  private readonly channel: string;
+  private readonly ts: string;
+
+  private pending: PendingUpdate | null = null;
+  private isRunning: boolean = false;
+  private isFinished: boolean = false;
+
+  // 최소 간격에 따라 다음 업데이트를 보낼 수 있는 시각
+  private nextUpdateAt: number = 0;
+  // 최소 간격을 기다리는 중이면 깨우는 함수 (최종 상태가 들어오면 바로 보내기 위함)
+  private wake: (() => void) | null = null;
+
+  constructor(client: SlackClient, channel: string, ts: string) {
+    this.client = client;
+    this.channel = channel;
+    this.ts = ts;
+  }
+
+  /**
+   * 진행 상태를 예약합니다. 아직 보내지 않은 이전 진행 상태는 버려집니다.
+   * finish() 이후에는 무시됩니다.
+   */
+  schedule(payload: MessagePayload): void {
+    if (this.isFinished) {
+      return;
+    }
+
+    this.pending = { payload, isTerminal: false, waiters: [] };
+    void this.run();
+  }
+
+  /**
+   * 최종 상태를 기록합니다. 최소 간격을 기다리지 않고 바로 보냅니다.
+   * 기록에 실패하면 에러를 던지므로, 호출자는 다른 최종 상태로 다시 finish() 할 수 있습니다.
+   */
+  finish(payload: MessagePayload): Promise<void> {
+    this.isFinished = true;
+
+    return new Promise((resolve, reject) => {
+      // 아직 보내지 못한 최종 상태가 있으면 새 최종 상태가 기록될 때 함께 완료됨
+      const waiters = this.pending?.waiters ?? [];
+      this.pending = { payload, isTerminal: true, waiters: [...waiters, { resolve, reject }] };
+      this.wake?.();
+      void this.run();
+    });
+  }
+
+  /**
+   * 대기 중인 업데이트를 순서대로 보냅니다. 이미 돌고 있으면 아무것도 하지 않습니다.
+   */
+  private async run(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      while (this.pending) {
+        const readyAt = this.pending.isTerminal ? 0 : this.nextUpdateAt;
+        if (readyAt > Date.now()) {
+          // 기다리는 동안 최종 상태로 바뀔 수 있으므로 깨어나서 다시 확인
+          await this.sleep(readyAt - Date.now());
+          continue;
+        }
+
+        // 보내는 사이에 새 상태가 들어올 수 있으므로 먼저 꺼냄
+        const update = this.pending;
+        this.pending = null;
+
+        try {
+          await this.client.chat.update({
+            channel: this.channel,
+            ts: this.ts,
+            text: update.payload.text,
+            blocks: update.payload.blocks,
+          });
+          this.nextUpdateAt = Date.now() + MIN_UPDATE_INTERVAL_MS;
+          for (const waiter of update.waiters) {
+            waiter.resolve();
+          }
+        } catch (error) {
+          if (update.isTerminal) {
+            for (const waiter of update.waiters) {
+              waiter.reject(error);
+            }
+          } else {
+            // 진행 상태는 다음 업데이트가 덮어쓰므로 실패해도 넘어감
+            logger.warn("chat.update 실패", { channel: this.channel, ts: this.ts, error });
+          }
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * 주어진 시간 동안 쉽니다. finish()가 불리면 바로 깨어납니다.
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.wake?.(), ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * 헬스체크와 메트릭
+ *
+ * Socket Mode에서도 열려 있는 로컬 HTTP 서버(PORT)에 다음 라우트를 제공합니다.
+ * - GET /healthz: Slack 소켓 연결 상태, 앱 버전, 시작 시점 커밋 (연결이 끊겨 있으면 503)
+ * - GET /metrics: Prometheus 텍스트 형식의 실행/대기열 지표
+ *
+ * 실행 결과와 도구 호출은 기록될 때마다 누적하고, 실행 중/대기 중 수치는
+ * 요청이 올 때 threadQueueManager와 workerPool에서 읽어옵니다.
+ */
+
+import type { ServerResponse } from "node:http";
+import type { CustomRoute } from "@slack/bolt";
+import { getAppStartCommitHash, getAppVersion } from "./app-info";
+import type { RunStatus } from "./run-history";
+import { threadQueueManager } from "./thread-queue";
+import { workerPool } from "./worker-pool";
+
+/** Slack 소켓 연결 상태 (@slack/socket-mode의 State 값) */
+export type SocketState =
+  | "connecting"
+  | "authenticated"
+  | "connected"
+  | "reconnecting"
+  | "disconnecting"
+  | "disconnected";
+
+// 상태 이벤트를 구독할 소켓 클라이언트 타입 (on 메서드만 사용)
+interface SocketClient {
+  on: (event: SocketState, listener: () => void) => unknown;
+}
+
+// 실행 시간 히스토그램 구간 (초)
+const DURATION_BUCKETS = [10, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+const RUN_STATUSES: RunStatus[] = ["succeeded", "failed", "aborted"];
+
+/**
+ * 누적 지표 클래스
+ */
+class Metrics {
+  private socketState: SocketState = "disconnected";
+  private socketStateSince: Date = new Date();
+  private readonly startedAt: Date = new Date();
+
+  private runCounts: Record<RunStatus, number> = { succeeded: 0, failed: 0, aborted: 0 };
+  // 구간별 누적 개수 (DURATION_BUCKETS와 같은 순서, 마지막은 +Inf)
+  private durationBuckets: number[] = new Array(DURATION_BUCKETS.length + 1).fill(0);
+  private durationSum: number = 0;
+  private toolCalls = new Map<string, number>();
+
+  /**
+   * 소켓 클라이언트의 연결 상태 변화를 따라갑니다. 앱 시작 시 한 번 호출합니다.
+   */
+  trackSocket(client: SocketClient): void {
+    const states: SocketState[] = [
+      "connecting",
+      "authenticated",
+      "connected",
+      "reconnecting",
+      "disconnecting",
+      "disconnected",
+    ];
+    for (const state of states) {
+      client.on(state, () => {
+        this.socketState = state;
+        this.socketStateSince = new Date();
+      });
+    }
+  }
+
+  /**
+   * 끝난 실행을 기록합니다.
+   */
+  recordRun(status: RunStatus, durationSeconds: number): void {
+    this.runCounts[status]++;
+    this.durationSum += durationSeconds;
+
+    const index = DURATION_BUCKETS.findIndex((le) => durationSeconds <= le);
+    this.durationBuckets[index === -1 ? DURATION_BUCKETS.length : index]++;
+  }
+
+  /**
+   * 도구 호출을 기록합니다.
+   */
+  recordToolUse(toolName: string): void {
+    this.toolCalls.set(toolName, (this.toolCalls.get(toolName) ?? 0) + 1);
+  }
+
+  /**
+   * 헬스체크 응답 본문을 반환합니다.
+   */
+  getHealth(): { ok: boolean; body: Record<string, unknown> } {
+    const ok = this.socketState === "connected";
+    return {
+      ok,
+      body: {
+        status: ok ? "ok" : "unavailable",
+        slack: { state: this.socketState, since: this.socketStateSince.toISOString() },
+        version: getAppVersion(),
+        commit: getAppStartCommitHash(),
+        uptimeSeconds: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+      },
+    };
+  }
+
+  /**
+   * Prometheus 텍스트 형식으로 지표를 반환합니다.
+   */
+  render(): string {
+    const snapshots = threadQueueManager.getActiveSnapshots();
+    const queuedMessages = snapshots.reduce((sum, snapshot) => sum + snapshot.queue.length, 0);
+    const lines: string[] = [];
+
+    const gauge = (name: string, help: string, value: number) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`);
+    };
+
+    gauge(
+      "vibecoder_slack_connected",
+      "Slack 소켓이 연결되어 있으면 1",
+      this.socketState === "connected" ? 1 : 0,
+    );
+    gauge("vibecoder_active_runs", "실행 중인 작업 수", workerPool.getActiveCount());
+    gauge("vibecoder_max_concurrent_runs", "동시 실행 한도", workerPool.getMaxConcurrent());
+    gauge(
+      "vibecoder_waiting_threads",
+      "전역 슬롯을 기다리는 스레드 수",
+      workerPool.getWaitingCount(),
+    );
+    gauge("vibecoder_queued_messages", "스레드 큐에서 대기 중인 요청 수", queuedMessages);
+    gauge(
+      "vibecoder_busy_threads",
+      "처리 중이거나 대기 중인 요청이 있는 스레드 수",
+      snapshots.length,
+    );
+
+    lines.push(
+      "# HELP vibecoder_runs_total 끝난 실행 수 (결과별)",
+      "# TYPE vibecoder_runs_total counter",
+      ...RUN_STATUSES.map(
+        (status) => `vibecoder_runs_total{status="${status}"} ${this.runCounts[status]}`,
+      ),
+    );
+
+    const runCount = RUN_STATUSES.reduce((sum, status) => sum + this.runCounts[status], 0);
+    let cumulative = 0;
+    lines.push(
+      "# HELP vibecoder_run_duration_seconds 실행 시간",
+      "# TYPE vibecoder_run_duration_seconds histogram",
+    );
+    DURATION_BUCKETS.forEach((le, i) => {
+      cumulative += this.durationBuckets[i];
+      lines.push(`vibecoder_run_duration_seconds_bucket{le="${le}"} ${cumulative}`);
+    });
+    lines.push(
+      `vibecoder_run_duration_seconds_bucket{le="+Inf"} ${runCount}`,
+      `vibecoder_run_duration_seconds_sum ${this.durationSum}`,
+      `vibecoder_run_duration_seconds_count ${runCount}`,
+    );
+
+    lines.push(
+      "# HELP vibecoder_tool_calls_total 도구 호출 수 (도구별)",
+      "# TYPE vibecoder_tool_calls_total counter",
+      ...[...this.toolCalls].map(
+        ([tool, count]) => `vibecoder_tool_calls_total{tool="${escapeLabel(tool)}"} ${count}`,
+      ),
+    );
+
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * Prometheus 라벨 값에 쓸 수 있도록 이스케이프합니다.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * 응답을 보냅니다.
+ */
+function send(res: ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { "Content-Type": contentType });
+  res.end(body);
+}
+
+export const metrics = new Metrics();
+
+/**
+ * 헬스체크 라우트 (Slack 소켓이 연결되어 있지 않으면 503)
+ */
+export const healthzRoute: CustomRoute = {
+  path: "/healthz",
+  method: "GET",
+  handler: (_req, res) => {
+    const { ok, body } = metrics.getHealth();
+    send(res, ok ? 200 : 503, "application/json; charset=utf-8", JSON.stringify(body));
+  },
+};
+
+/**
+ * Prometheus 메트릭 라우트
+ */
+export const metricsRoute: CustomRoute = {
+  path: "/metrics",
+  method: "GET",
+  handler: (_req, res) => {
+    send(res, 200, "text/plain; version=0.0.4; charset=utf-8", metrics.render());
+  },
+};
@@ -0,0 +1,247 @@
+/**
+ * 유저/채널별 사용량 한도
+ *
+ * 팀 전체가 하나의 Claude 계정을 같이 쓰므로, 한 사람이나 한 채널이
+ * 사용량을 다 써버리지 않도록 다음 한도를 둡니다.
+ * - 시간당 실행 수 (최근 1시간 기준)
+ * - 하루 총 실행 시간 (자정에 초기화, 서버 로컬 시간 기준)
+ * - 실행 한 번의 도구 호출 수
+ *
+ * 한도는 quotas.json에서 읽고, 실행 기록은 data/quota-usage.json에 저장합니다.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+import { logger } from "./logger";
+
+/** 한도 설정 (없는 항목은 제한 없음) */
+export interface QuotaLimits {
+  runsPerHour?: number;
+  runtimeMinutesPerDay?: number;
+  toolCallsPerRun?: number;
+}
+
+/** 한도 파일 구조 */
+interface QuotasConfig {
+  /** 목록에 없는 유저에게 적용할 한도 */
+  userDefault?: QuotaLimits;
+  /** 목록에 없는 채널에 적용할 한도 */
+  channelDefault?: QuotaLimits;
+  /** 슬랙 유저 ID → 한도 */
+  users?: Record<string, QuotaLimits>;
+  /** 채널 ID → 한도 */
+  channels?: Record<string, QuotaLimits>;
+}
+
+/** 한도 초과 정보 */
+export interface QuotaViolation {
+  scope: "user" | "channel";
+  kind: keyof QuotaLimits;
+  limit: number;
+  /** 다시 사용할 수 있게 되는 시각 (실행당 한도면 null) */
+  resetAt: Date | null;
+}
+
+/** 실행 기록 */
+interface QuotaRun {
+  id: string;
+  userId: string;
+  channel: string;
+  startedAt: string;
+  durationSeconds: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * 한도 파일을 로드합니다.
+ * 파일이 없거나 파싱에 실패하면 빈 객체를 반환합니다 (제한 없음).
+ */
+function loadQuotasConfig(): QuotasConfig {
+  const projectRoot = process.env.PROJECT_DIR || process.cwd();
+  const configPath = join(projectRoot, "quotas.json");
+
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const content = readFileSync(configPath, "utf-8");
+    return JSON.parse(content);
+  } catch (error) {
+    logger.error("사용량 한도 파일 파싱 실패", { error });
+    return {};
+  }
+}
+
+/**
+ * 유저와 채널에 적용할 한도를 반환합니다.
+ * 매번 파일을 다시 읽으므로 한도 변경이 재시작 없이 반영됩니다.
+ */
+function getLimits(userId: string, channel: string): { user: QuotaLimits; channel: QuotaLimits } {
+  const config = loadQuotasConfig();
+  return {
+    user: config.users?.[userId] ?? config.userDefault ?? {},
+    channel: config.channels?.[channel] ?? config.channelDefault ?? {},
+  };
+}
+
+/**
+ * 다음 자정(서버 로컬 시간)을 반환합니다.
+ */
+function getNextMidnight(now: Date): Date {
+  const midnight = new Date(now);
+  midnight.setHours(24, 0, 0, 0);
+  return midnight;
+}
+
+/**
+ * 사용량 한도 관리자 클래스
+ */
+class QuotaManager {
+  private runs: QuotaRun[] = [];
+
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 실행 기록을 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   */
+  load(storePath: string = getDataFilePath("quota-usage.json")): void {
+    this.storePath = storePath;
+    this.runs = readJsonFile<QuotaRun[]>(storePath, []);
+    this.prune();
+  }
+
+  /**
+   * 새 실행을 시작해도 되는지 확인합니다.
+   *
+   * 반환값: 넘은 한도 (없으면 null). 유저 한도를 먼저 확인합니다.
+   */
+  check(userId: string, channel: string, now: Date = new Date()): QuotaViolation | null {
+    const limits = getLimits(userId, channel);
+
+    return (
+      this.checkScope("user", limits.user, (run) => run.userId === userId, now) ??
+      this.checkScope("channel", limits.channel, (run) => run.channel === channel, now)
+    );
+  }
+
+  /**
+   * 실행 한 번의 도구 호출 수가 한도를 넘었는지 확인합니다.
+   *
+   * 반환값: 넘은 한도 (없으면 null)
+   */
+  checkToolCalls(userId: string, channel: string, toolCallCount: number): QuotaViolation | null {
+    const limits = getLimits(userId, channel);
+
+    for (const scope of ["user", "channel"] as const) {
+      const limit = limits[scope].toolCallsPerRun;
+      if (limit !== undefined && toolCallCount > limit) {
+        return { scope, kind: "toolCallsPerRun", limit, resetAt: null };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 실행 시작을 기록합니다 (시간당 실행 수에 포함).
+   */
+  startRun(id: string, userId: string, channel: string): void {
+    this.prune();
+    this.runs.push({
+      id,
+      userId,
+      channel,
+      startedAt: new Date().toISOString(),
+      durationSeconds: 0,
+    });
+    this.persist();
+  }
+
+  /**
+   * 실행 종료를 기록합니다 (하루 실행 시간에 포함).
+   */
+  finishRun(id: string, durationSeconds: number): void {
+    const run = this.runs.find((r) => r.id === id);
+    if (!run) {
+      return;
+    }
+
+    run.durationSeconds = durationSeconds;
+    this.persist();
+  }
+
+  /**
+   * 한 범위(유저 또는 채널)의 시간당 실행 수와 하루 실행 시간을 확인합니다.
+   */
+  private checkScope(
+    scope: QuotaViolation["scope"],
+    limits: QuotaLimits,
+    matches: (run: QuotaRun) => boolean,
+    now: Date,
+  ): QuotaViolation | null {
+    const runs = this.runs.filter(matches);
+
+    if (limits.runsPerHour !== undefined) {
+      const recent = runs
+        .map((run) => new Date(run.startedAt).getTime())
+        .filter((startedAt) => startedAt > now.getTime() - HOUR_MS)
+        .sort((a, b) => a - b);
+
+      if (recent.length >= limits.runsPerHour) {
+        // 가장 오래된 실행이 1시간 창을 벗어나면 한 번 더 실행할 수 있음
+        const oldest = recent[recent.length - limits.runsPerHour];
+        return {
+          scope,
+          kind: "runsPerHour",
+          limit: limits.runsPerHour,
+          resetAt: new Date(oldest + HOUR_MS),
+        };
+      }
+    }
+
+    if (limits.runtimeMinutesPerDay !== undefined) {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+
+      const runtimeSeconds = runs
+        .filter((run) => new Date(run.startedAt) >= midnight)
+        .reduce((sum, run) => sum + run.durationSeconds, 0);
+
+      if (runtimeSeconds >= limits.runtimeMinutesPerDay * 60) {
+        return {
+          scope,
+          kind: "runtimeMinutesPerDay",
+          limit: limits.runtimeMinutesPerDay,
+          resetAt: getNextMidnight(now),
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 하루가 지난 기록을 정리합니다.
+   */
+  private prune(): void {
+    const cutoff = Date.now() - DAY_MS;
+    this.runs = this.runs.filter((run) => new Date(run.startedAt).getTime() > cutoff);
+  }
+
+  /**
+   * 실행 기록을 파일에 저장합니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonFile(this.storePath, this.runs);
+  }
+}
+
+export const quotaManager = new QuotaManager();
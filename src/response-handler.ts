@@ -5,20 +5,46 @@
  * app.ts에서 복잡한 콜백/타이머 로직을 분리하여 가독성 향상.
  */
 
+import { getChannelPolicy } from "./channel-policies";
+import type { RepoChange } from "./git-changes";
+import { getDefaultLocale, getMessages, type Locale } from "./i18n";
+import { type Logger, logger } from "./logger";
+import { MessageUpdater } from "./message-updater";
+import type { QuotaViolation } from "./quota-manager";
+import type { TimelineStep } from "./run-timeline";
 import {
+  type ApprovalRequest,
   buildAbortedMessage,
   buildErrorMessage,
+  buildMetadataBlock,
   buildProgressMessage,
+  buildQuotaExceededMessage,
   buildResultMessage,
   buildTextBlock,
   buildThinkingMessage,
-  formatDuration,
+  extractLargeCodeBlocks,
+  formatApprovalDecision,
   getUserMention,
+  METADATA_BLOCK_ID,
+  type MessageBlocks,
+  type MessageMetadata,
+  type ResultFile,
+  summarizeForSlack,
 } from "./slack-message";
+import type { TodoItem } from "./todo-plan";
+import type { ApprovalDecision } from "./tool-approval";
+import type { TokenUsage } from "./usage-ledger";
 
 type SlackBlock = Record<string, unknown>;
 
-// Slack client 타입 (chat.postMessage, chat.update 메서드만 사용)
+// 결과(코드 블록 제외)가 이 길이를 넘으면 전체를 파일로 올리고 메시지에는 요약만 남깁니다.
+const RESULT_FILE_THRESHOLD = parseInt(process.env.RESULT_FILE_THRESHOLD || "6000", 10);
+// 이 길이 이상인 코드 블록은 따로 파일로 올립니다.
+const CODE_FILE_THRESHOLD = parseInt(process.env.CODE_FILE_THRESHOLD || "1500", 10);
+// 결과를 파일로 올릴 때 메시지에 남기는 요약 길이
+const RESULT_SUMMARY_LENGTH = 1500;
+
+// Slack client 타입 (chat.postMessage, chat.update, files.uploadV2 메서드만 사용)
 interface SlackClient {
   chat: {
     postMessage: (args: {
@@ -34,6 +60,13 @@ interface SlackClient {
       blocks?: SlackBlock[];
     }) => Promise<unknown>;
   };
+  files: {
+    uploadV2: (args: {
+      channel_id: string;
+      thread_ts: string;
+      file_uploads: Array<{ content: string; filename: string; title: string }>;
+    }) => Promise<unknown>;
+  };
 }
 
 /**
@@ -43,42 +76,71 @@ interface SlackClient {
  * - 초기 메시지 전송
  * - 타이머로 메타데이터 갱신
  * - onProgress/onResult/onError 콜백
- * - race condition 방지
+ * - 메시지 업데이트는 MessageUpdater로 한 줄로 세워 최종 상태가 항상 마지막에 기록되도록 함
  */
 export class ResponseHandler {
   private readonly client: SlackClient;
   private readonly channel: string;
   private readonly threadTs: string;
   private readonly userId: string;
+  private readonly log: Logger;
+
+  // 메시지 언어 (start에서 요청한 사람의 언어로 정함)
+  private locale: Locale = getDefaultLocale();
 
   private responseTs: string | null = null;
+  private updater: MessageUpdater | null = null;
   private timerId: NodeJS.Timeout | null = null;
   private startTime: number = Date.now();
 
   // 마지막 메시지 상태 (idempotent 업데이트용)
   private lastBlocks: SlackBlock[] = [];
   private lastFallbackText: string = "";
+  // 마지막 메시지의 메타데이터 (타이머가 경과 시간만 바꿔 다시 그림, 없으면 갱신하지 않음)
+  private lastMetadata: MessageMetadata | null = null;
+
+  // 마지막 진행 상황 (승인 처리 후 진행 메시지를 다시 그리기 위함)
+  private lastProgressText: string = "";
+  private lastSteps: TimelineStep[] = [];
+  private lastPlan: TodoItem[] = [];
+  private lastToolCallCount: number = 0;
 
-  // race condition 방지 플래그
+  // 응답을 기다리는 승인 요청 (진행 메시지를 다시 그려도 버튼이 사라지지 않도록 결정될 때까지 유지)
+  private pendingApprovals: ApprovalRequest[] = [];
+
+  // 완료 후 진행 상태를 만들지 않기 위한 플래그
   private isCompleted: boolean = false;
 
-  constructor(client: SlackClient, channel: string, threadTs: string, userId: string) {
+  constructor(
+    client: SlackClient,
+    channel: string,
+    threadTs: string,
+    userId: string,
+    log: Logger = logger.child({ threadTs, userId, channel }),
+  ) {
     this.client = client;
     this.channel = channel;
     this.threadTs = threadTs;
     this.userId = userId;
+    this.log = log;
   }
 
   /**
    * 초기 "생각하는 중..." 메시지를 전송하고 타이머를 시작합니다.
    * 반환값: 메시지 타임스탬프 (실패 시 null)
    */
-  async start(): Promise<string | null> {
+  async start(locale: Locale): Promise<string | null> {
     this.startTime = Date.now();
+    this.locale = locale;
 
-    const { blocks, fallbackText } = buildThinkingMessage(this.userId, this.threadTs);
-    this.lastBlocks = blocks;
-    this.lastFallbackText = fallbackText;
+    const message = buildThinkingMessage(
+      this.locale,
+      this.userId,
+      this.threadTs,
+      getChannelPolicy(this.channel),
+    );
+    const { blocks, fallbackText } = message;
+    this.remember(message);
 
     const response = await this.client.chat.postMessage({
       channel: this.channel,
@@ -88,11 +150,12 @@ export class ResponseHandler {
     });
 
     if (!response.ts) {
-      console.error("응답 메시지 타임스탬프를 가져올 수 없습니다.");
+      this.log.error("응답 메시지 타임스탬프를 가져올 수 없습니다");
       return null;
     }
 
     this.responseTs = response.ts;
+    this.updater = new MessageUpdater(this.client, this.channel, response.ts);
 
     // 매초 메타데이터 업데이트 타이머 시작
     this.timerId = setInterval(() => this.updateMetadataOnly(), 1000);
@@ -105,13 +168,19 @@ export class ResponseHandler {
    * 큐에서 처리할 때 사용합니다.
    * 반환값: 메시지 타임스탬프 (실패 시 null)
    */
-  async startWithExistingMessage(existingTs: string): Promise<string | null> {
+  async startWithExistingMessage(existingTs: string, locale: Locale): Promise<string | null> {
     this.startTime = Date.now();
+    this.locale = locale;
     this.responseTs = existingTs;
 
-    const { blocks, fallbackText } = buildThinkingMessage(this.userId, this.threadTs);
-    this.lastBlocks = blocks;
-    this.lastFallbackText = fallbackText;
+    const message = buildThinkingMessage(
+      this.locale,
+      this.userId,
+      this.threadTs,
+      getChannelPolicy(this.channel),
+    );
+    const { blocks, fallbackText } = message;
+    this.remember(message);
 
     try {
       await this.client.chat.update({
@@ -121,9 +190,10 @@ export class ResponseHandler {
         blocks,
       });
     } catch (error) {
-      console.error("기존 메시지 업데이트 실패:", error);
+      this.log.error("기존 메시지 업데이트 실패", { error });
       return null;
     }
+    this.updater = new MessageUpdater(this.client, this.channel, existingTs);
 
     // 매초 메타데이터 업데이트 타이머 시작
     this.timerId = setInterval(() => this.updateMetadataOnly(), 1000);
@@ -133,90 +203,95 @@ export class ResponseHandler {
 
   /**
    * 진행 상황을 업데이트합니다. (onProgress 콜백용)
+   * note는 승인 결과처럼 도구 내역 위에 잠깐 보여줄 알림입니다.
    */
   async updateProgress(
     text: string,
-    toolInfo: string | undefined,
+    steps: TimelineStep[],
     elapsedSeconds: number,
     toolCallCount: number,
+    plan: TodoItem[] = [],
+    note?: string,
   ): Promise<void> {
     if (!this.responseTs || this.isCompleted) {
       return;
     }
 
-    const { blocks, fallbackText } = buildProgressMessage(
+    this.lastProgressText = text;
+    this.lastSteps = steps;
+    this.lastPlan = plan;
+    this.lastToolCallCount = toolCallCount;
+
+    const message = buildProgressMessage(
+      this.locale,
       this.userId,
       this.threadTs,
       text,
-      toolInfo,
+      steps,
       elapsedSeconds,
       toolCallCount,
+      plan,
+      note,
+      this.pendingApprovals,
     );
 
-    this.lastBlocks = blocks;
-    this.lastFallbackText = fallbackText;
-
-    try {
-      await this.client.chat.update({
-        channel: this.channel,
-        ts: this.responseTs,
-        text: fallbackText,
-        blocks,
-      });
-    } catch (error) {
-      console.error(`[${new Date().toISOString()}] onProgress chat.update 실패:`, error);
-    }
+    this.scheduleUpdate(message);
   }
 
   /**
    * 최종 결과를 표시합니다. (onResult 콜백용)
    */
-  async showResult(text: string, durationSeconds: number, toolCallCount: number): Promise<void> {
-    // race condition 방지
+  async showResult(
+    text: string,
+    durationSeconds: number,
+    toolCallCount: number,
+    usage?: TokenUsage | null,
+    gitChanges: RepoChange[] = [],
+    revertPointId: string | null = null,
+    timelineMessageId: string | null = null,
+    plan: TodoItem[] = [],
+  ): Promise<void> {
     this.isCompleted = true;
     this.stopTimer();
 
-    if (!this.responseTs) {
+    if (!this.updater) {
       return;
     }
 
+    // 긴 결과와 긴 코드 블록은 파일로 올리고 메시지에는 요약과 링크만 남깁니다.
+    const displayText = await this.attachLongResult(text);
+
     const { firstMessage, additionalChunks } = buildResultMessage(
+      this.locale,
       this.userId,
-      text,
+      displayText,
       durationSeconds,
       toolCallCount,
+      usage,
+      gitChanges,
+      revertPointId,
+      this.threadTs,
+      timelineMessageId,
+      plan,
     );
 
-    this.lastBlocks = firstMessage.blocks;
-    this.lastFallbackText = firstMessage.fallbackText;
+    this.remember(firstMessage);
 
     // 에러 표시 헬퍼
     const showError = async (error: unknown) => {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      const { blocks, fallbackText } = buildErrorMessage(this.userId, errorMessage);
-
       try {
-        await this.client.chat.update({
-          channel: this.channel,
-          ts: this.responseTs!,
-          text: fallbackText,
-          blocks,
-        });
+        await this.finishUpdate(buildErrorMessage(this.locale, this.userId, errorMessage));
       } catch {
-        console.error(`[${new Date().toISOString()}] 에러 표시도 실패`);
+        this.log.error("에러 표시도 실패");
       }
     };
 
-    // 첫 번째 청크: 기존 메시지 업데이트
+    // 첫 번째 청크: 기존 메시지 업데이트 (대기 중인 진행 상태는 버려짐)
     try {
-      await this.client.chat.update({
-        channel: this.channel,
-        ts: this.responseTs,
-        text: firstMessage.fallbackText,
-        blocks: firstMessage.blocks,
-      });
+      await this.updater.finish({ text: firstMessage.fallbackText, blocks: firstMessage.blocks });
     } catch (error) {
-      console.error(`[${new Date().toISOString()}] onResult 첫 메시지 업데이트 실패:`, error);
+      this.log.error("결과 메시지 업데이트 실패", { error });
       await showError(error);
       return;
     }
@@ -231,33 +306,21 @@ export class ResponseHandler {
           blocks: [buildTextBlock(additionalChunks[i])],
         });
       } catch (error) {
-        console.error(
-          `[${new Date().toISOString()}] 후속 메시지 ${i + 2}/${additionalChunks.length + 1} 전송 실패:`,
+        this.log.error("후속 메시지 전송 실패", {
+          chunk: i + 2,
+          chunkCount: additionalChunks.length + 1,
           error,
-        );
+        });
         await showError(error);
         return;
       }
     }
 
-    // Quick fix: 1초 후에 첫 메시지 한 번 더 업데이트 (race condition 방지)
-    setTimeout(async () => {
-      try {
-        await this.client.chat.update({
-          channel: this.channel,
-          ts: this.responseTs!,
-          text: firstMessage.fallbackText,
-          blocks: firstMessage.blocks,
-        });
-      } catch {
-        // 재시도 실패는 무시
-      }
-    }, 1000);
-
-    const timeStr = formatDuration(durationSeconds);
-    console.log(
-      `[${new Date().toISOString()}] ✅ TURNAROUND_SUCCESS: 스레드 ${this.threadTs} 완료 (${timeStr}, 도구 ${toolCallCount}회, ${additionalChunks.length + 1}개 메시지)`,
-    );
+    this.log.info("결과 전송 완료", {
+      durationSeconds,
+      toolCallCount,
+      messageCount: additionalChunks.length + 1,
+    });
   }
 
   /**
@@ -267,56 +330,91 @@ export class ResponseHandler {
     this.isCompleted = true;
     this.stopTimer();
 
-    if (!this.responseTs) {
-      return;
-    }
-
-    const { blocks, fallbackText } = buildErrorMessage(this.userId, error.message);
-    this.lastBlocks = blocks;
-    this.lastFallbackText = fallbackText;
-
     try {
-      await this.client.chat.update({
-        channel: this.channel,
-        ts: this.responseTs,
-        text: fallbackText,
-        blocks,
-      });
+      await this.finishUpdate(buildErrorMessage(this.locale, this.userId, error.message));
     } catch (updateError) {
-      console.error(`[${new Date().toISOString()}] onError chat.update 실패:`, updateError);
+      this.log.error("에러 메시지 업데이트 실패", { error: updateError });
 
       // 최소한의 메시지라도 시도
       try {
-        await this.client.chat.update({
-          channel: this.channel,
-          ts: this.responseTs,
-          text: `${getUserMention(this.userId)} 오류 발생 (상세 표시 실패)`.trim(),
-          blocks: [],
-        });
+        const fallbackText = `${getUserMention(this.userId)} ${getMessages(this.locale).run.errorDisplayFailed}`;
+        await this.finishUpdate({ blocks: [], fallbackText: fallbackText.trim() });
       } catch (retryError) {
-        console.error(`[${new Date().toISOString()}] 최소 에러 메시지 표시도 실패:`, retryError);
+        this.log.error("최소 에러 메시지 표시도 실패", { error: retryError });
       }
     }
   }
 
+  /**
+   * 위험한 명령의 승인 요청(승인/거부 버튼)을 표시합니다.
+   */
+  async showApprovalRequest(
+    approvalId: string,
+    command: string,
+    timeoutSeconds: number,
+  ): Promise<void> {
+    if (!this.responseTs || this.isCompleted) {
+      return;
+    }
+
+    this.pendingApprovals = [...this.pendingApprovals, { approvalId, command, timeoutSeconds }];
+    const elapsedSeconds = Math.round((Date.now() - this.startTime) / 1000);
+    await this.updateProgress(
+      this.lastProgressText,
+      this.lastSteps,
+      elapsedSeconds,
+      this.lastToolCallCount,
+      this.lastPlan,
+    );
+  }
+
+  /**
+   * 승인 결과를 표시하고 승인 버튼을 내립니다.
+   */
+  async showApprovalDecision(
+    approvalId: string,
+    command: string,
+    decision: ApprovalDecision,
+  ): Promise<void> {
+    this.pendingApprovals = this.pendingApprovals.filter(
+      (approval) => approval.approvalId !== approvalId,
+    );
+    const elapsedSeconds = Math.round((Date.now() - this.startTime) / 1000);
+    await this.updateProgress(
+      this.lastProgressText,
+      this.lastSteps,
+      elapsedSeconds,
+      this.lastToolCallCount,
+      this.lastPlan,
+      formatApprovalDecision(
+        this.locale,
+        command,
+        decision.approved,
+        decision.userId,
+        decision.reason,
+      ),
+    );
+  }
+
   /**
    * 작업 중단을 표시합니다.
    */
   async showAborted(): Promise<void> {
+    // 중단 이후의 진행/승인 업데이트가 덮어쓰지 않도록 완료로 표시
+    this.isCompleted = true;
     this.stopTimer();
 
-    if (!this.responseTs) {
-      return;
-    }
+    await this.finishUpdate(buildAbortedMessage(this.locale, this.userId));
+  }
 
-    const { blocks, fallbackText } = buildAbortedMessage(this.userId);
+  /**
+   * 도구 호출 한도 초과로 인한 중단을 표시합니다.
+   */
+  async showQuotaExceeded(violation: QuotaViolation): Promise<void> {
+    this.isCompleted = true;
+    this.stopTimer();
 
-    await this.client.chat.update({
-      channel: this.channel,
-      ts: this.responseTs,
-      text: fallbackText,
-      blocks,
-    });
+    await this.finishUpdate(buildQuotaExceededMessage(this.locale, this.userId, violation));
   }
 
   /**
@@ -336,6 +434,27 @@ export class ResponseHandler {
     return this.responseTs;
   }
 
+  /**
+   * 요청한 유저의 언어를 반환합니다. (start 전에는 기본 언어)
+   */
+  getLocale(): Locale {
+    return this.locale;
+  }
+
+  /**
+   * 시작 후 경과 시간(초)을 반환합니다.
+   */
+  getElapsedSeconds(): number {
+    return Math.floor((Date.now() - this.startTime) / 1000);
+  }
+
+  /**
+   * 마지막으로 보고된 도구 호출 수를 반환합니다.
+   */
+  getToolCallCount(): number {
+    return this.lastToolCallCount;
+  }
+
   /**
    * 완료 여부를 반환합니다.
    */
@@ -347,14 +466,84 @@ export class ResponseHandler {
   // Private
   // ============================================================================
 
+  /**
+   * 진행 상태를 기억하고 업데이트를 예약합니다.
+   * 아직 보내지 못한 이전 상태는 이 상태로 대체됩니다.
+   */
+  private scheduleUpdate(message: MessageBlocks): void {
+    this.remember(message);
+    this.updater?.schedule({ text: message.fallbackText, blocks: message.blocks });
+  }
+
+  /**
+   * 최종 상태(결과/에러/중단)를 기록합니다. 이후의 진행 상태는 무시됩니다.
+   */
+  private async finishUpdate(message: MessageBlocks): Promise<void> {
+    this.remember(message);
+    await this.updater?.finish({ text: message.fallbackText, blocks: message.blocks });
+  }
+
+  /**
+   * 마지막으로 보낸 메시지 상태를 기억합니다.
+   */
+  private remember(message: MessageBlocks): void {
+    this.lastBlocks = message.blocks;
+    this.lastFallbackText = message.fallbackText;
+    this.lastMetadata = message.metadata ?? null;
+  }
+
+  /**
+   * 긴 결과와 긴 코드 블록을 스레드에 파일로 올립니다.
+   *
+   * 반환값: 메시지에 표시할 텍스트 (올릴 파일이 없거나 업로드에 실패하면 원래 텍스트)
+   */
+  private async attachLongResult(text: string): Promise<string> {
+    const messages = getMessages(this.locale).run;
+    const extracted = extractLargeCodeBlocks(this.locale, text, CODE_FILE_THRESHOLD);
+    const files: ResultFile[] = [...extracted.files];
+    let body = extracted.text;
+
+    if (body.length > RESULT_FILE_THRESHOLD) {
+      files.unshift({ filename: "result.md", title: messages.fullResultTitle, content: text });
+      body = summarizeForSlack(body, RESULT_SUMMARY_LENGTH);
+    }
+
+    if (files.length === 0) {
+      return text;
+    }
+
+    try {
+      const response = (await this.client.files.uploadV2({
+        channel_id: this.channel,
+        thread_ts: this.threadTs,
+        file_uploads: files.map(({ content, filename, title }) => ({ content, filename, title })),
+      })) as { files?: Array<{ files?: Array<{ permalink?: string }> }> };
+
+      // 업로드 순서대로 완료 응답이 옵니다. 링크가 없으면 파일 이름만 표시합니다.
+      const permalinks = (response.files ?? [])
+        .flatMap((r) => r.files ?? [])
+        .map((f) => f.permalink);
+      const links = files.map((file, i) =>
+        permalinks[i] ? `<${permalinks[i]}|${file.filename}>` : `\`${file.filename}\``,
+      );
+
+      this.log.info("결과 파일 업로드", { fileCount: files.length });
+      return `${body}\n\n${messages.attachedFiles(links.join(", "))}`;
+    } catch (error) {
+      // 업로드에 실패하면 예전처럼 여러 메시지로 나눠 보냅니다.
+      this.log.error("결과 파일 업로드 실패", { error });
+      return text;
+    }
+  }
+
   /**
    * 메타데이터(시간)만 업데이트합니다. (타이머 콜백용)
    *
    * idempotent 설계: 마지막으로 보낸 블록을 그대로 사용하되
-   * context 블록의 시간 부분만 현재 시간으로 교체.
+   * 메타데이터 블록만 현재 경과 시간으로 다시 만들어 교체.
    */
-  private async updateMetadataOnly(): Promise<void> {
-    if (!this.responseTs || this.lastBlocks.length === 0) {
+  private updateMetadataOnly(): void {
+    if (!this.updater || !this.lastMetadata) {
       return;
     }
 
@@ -365,41 +554,12 @@ export class ResponseHandler {
 
     // 현재 경과 시간 계산
     const elapsedSeconds = Math.round((Date.now() - this.startTime) / 1000);
-    const timeStr = formatDuration(elapsedSeconds);
-
-    // 마지막 블록을 깊은 복사
-    const updatedBlocks = JSON.parse(JSON.stringify(this.lastBlocks));
-
-    // context 블록 찾아서 시간 부분만 교체
-    for (const block of updatedBlocks) {
-      if (block.type === "context" && Array.isArray(block.elements)) {
-        for (const element of block.elements) {
-          if (element.type === "mrkdwn" && typeof element.text === "string") {
-            // 시간 패턴: _X초 또는 _X분 Y초 로 시작하는 부분을 교체
-            element.text = element.text.replace(
-              /^_\d+분?\s*\d*초?\s*(경과|소요)/,
-              `_${timeStr} $1`,
-            );
-          }
-        }
-      }
-    }
-
-    // 2차 체크: 블록 준비 후, chat.update 직전에 다시 확인
-    if (this.isCompleted) {
-      return;
-    }
+    const metadataBlock = buildMetadataBlock(this.locale, { ...this.lastMetadata, elapsedSeconds });
+    const updatedBlocks = this.lastBlocks.map((block) =>
+      block.block_id === METADATA_BLOCK_ID ? metadataBlock : block,
+    );
 
-    try {
-      await this.client.chat.update({
-        channel: this.channel,
-        ts: this.responseTs,
-        text: this.lastFallbackText,
-        blocks: updatedBlocks,
-      });
-    } catch (error) {
-      console.warn(`메타데이터 업데이트 실패 (스레드: ${this.threadTs}):`, error);
-      this.stopTimer();
-    }
+    // lastBlocks는 그대로 두어 다음 진행 상태가 시간 교체의 기준이 되도록 함
+    this.updater.schedule({ text: this.lastFallbackText, blocks: updatedBlocks });
   }
 }
@@ -0,0 +1,371 @@
+/**
+ * 실행 되돌리기
+ *
+ * 실행 전 각 저장소의 HEAD, 브랜치, 커밋되지 않은 변경(stash 커밋)과 이번 실행이 바꾼 파일을
+ * 기록해 두었다가 결과 메시지의 "되돌리기" 버튼을 누르면 그 파일들만 실행 전 상태로 되돌립니다.
+ * 작업 트리 전체를 reset 하지 않으므로 같은 저장소의 다른 변경은 건드리지 않습니다.
+ *
+ * - 아직 푸시되지 않은 커밋은 실행 전 HEAD로 되돌립니다. (reset --soft, 작업 트리는 그대로)
+ * - 이미 푸시된 커밋은 누른 사람을 author로 revert 커밋을 만들고, 푸시는 따로 확인을 받은 뒤 합니다.
+ * - 이번 실행이 바꾼 파일은 실행 전 내용(커밋되지 않은 변경 포함)으로 되돌리고, 새로 만든 파일은 지웁니다.
+ *
+ * stash 커밋은 gc로 사라지지 않도록 refs/vibecoder/<id> 에 고정해 두며,
+ * 기록은 data/revert-points.json에 저장됩니다.
+ */
+
+import { join } from "node:path";
+import { type RepoChange, type RepoSnapshot, runGit } from "./git-changes";
+import { getGitAuthor } from "./github-users";
+import { getMessages, type Locale } from "./i18n";
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+import { logger } from "./logger";
+import { generateMessageId } from "./thread-queue";
+
+/** 저장소 하나의 되돌릴 지점 */
+interface RevertRepo {
+  name: string;
+  path: string;
+  head: string;
+  branch: string | null;
+  stash: string | null;
+  /** 실행 중에 생긴 커밋 (최신순) */
+  newCommits: string[];
+  /** 실행 중에 바뀐 추적 중인 파일 (저장소 기준 경로) */
+  changedFiles: string[];
+  /** 실행 중에 새로 만든 파일 (저장소 기준 경로) */
+  newFiles: string[];
+}
+
+/** 실행 한 번의 되돌릴 지점 */
+interface RevertPoint {
+  id: string;
+  threadTs: string;
+  createdAt: string;
+  repos: RevertRepo[];
+  /** 되돌린 뒤 푸시 확인을 기다리는 저장소 이름 (되돌리기 전에는 없음) */
+  pendingPush?: string[];
+}
+
+/** 저장소 하나의 되돌리기 결과 */
+export interface RevertResult {
+  name: string;
+  ok: boolean;
+  detail: string;
+  /** revert 커밋을 만들었고 푸시 확인을 기다리는지 */
+  pushPending?: boolean;
+}
+
+// 보관할 최대 지점 수 (오래된 것부터 삭제)
+const MAX_POINTS = 100;
+
+/**
+ * "username <email>" 형식의 author 문자열을 git 환경 변수로 바꿉니다.
+ */
+function getAuthorEnv(slackUserId: string): Record<string, string> {
+  const match = getGitAuthor(slackUserId).match(/^(.*) <(.*)>$/);
+  if (!match) {
+    return {};
+  }
+  return { GIT_AUTHOR_NAME: match[1], GIT_AUTHOR_EMAIL: match[2] };
+}
+
+/**
+ * 되돌리기 관리자 클래스
+ */
+class RevertManager {
+  private points: RevertPoint[] = [];
+
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 지점들을 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   */
+  load(storePath: string = getDataFilePath("revert-points.json")): void {
+    this.storePath = storePath;
+    // 바뀐 파일 목록이 없는 예전 형식의 지점은 작업 트리 전체를 건드려야 하므로 버림
+    this.points = readJsonFile<RevertPoint[]>(storePath, []).filter((point) =>
+      point.repos.every((repo) => Array.isArray(repo.changedFiles)),
+    );
+  }
+
+  /**
+   * 실행 결과로 되돌릴 지점을 기록합니다.
+   * 실행 전 상태를 아는 저장소 중 바뀐 것이 없으면 기록하지 않습니다.
+   *
+   * @returns 지점 ID (기록하지 않았으면 null)
+   */
+  async save(
+    threadTs: string,
+    rootDir: string,
+    before: RepoSnapshot[],
+    changes: RepoChange[],
+  ): Promise<string | null> {
+    const id = generateMessageId();
+    const repos: RevertRepo[] = [];
+
+    for (const change of changes) {
+      const snapshot = before.find((s) => s.path === join(rootDir, change.name));
+      if (!snapshot?.head) {
+        // 새로 클론됐거나 커밋이 없던 저장소는 되돌릴 기준이 없음
+        continue;
+      }
+
+      if (snapshot.stash) {
+        await runGit(snapshot.path, ["update-ref", `refs/vibecoder/${id}`, snapshot.stash]);
+      }
+
+      repos.push({
+        name: change.name,
+        path: snapshot.path,
+        head: snapshot.head,
+        branch: snapshot.branch,
+        stash: snapshot.stash,
+        newCommits: change.commits.map((commit) => commit.hash),
+        changedFiles: change.files.filter((file) => !file.isNew).map((file) => file.path),
+        newFiles: change.files.filter((file) => file.isNew).map((file) => file.path),
+      });
+    }
+
+    if (repos.length === 0) {
+      return null;
+    }
+
+    this.points.push({ id, threadTs, createdAt: new Date().toISOString(), repos });
+    while (this.points.length > MAX_POINTS) {
+      const dropped = this.points.shift();
+      if (dropped) {
+        await this.releasePoint(dropped);
+      }
+    }
+    this.persist();
+    return id;
+  }
+
+  /**
+   * 되돌릴 수 있는 지점이 있는지 확인합니다.
+   */
+  has(id: string): boolean {
+    return this.points.some((point) => point.id === id && !point.pendingPush);
+  }
+
+  /**
+   * 되돌린 뒤 푸시 확인을 기다리는 지점인지 확인합니다.
+   */
+  hasPendingPush(id: string): boolean {
+    return this.points.some((point) => point.id === id && point.pendingPush);
+  }
+
+  /**
+   * 지점으로 되돌립니다. 성공한 지점은 삭제되어 다시 되돌릴 수 없습니다.
+   *
+   * @param id 지점 ID
+   * @param slackUserId 버튼을 누른 슬랙 유저 (revert 커밋 author)
+   * @param locale 결과 설명을 적을 언어 (버튼을 누른 유저의 언어)
+   * @returns 저장소별 결과 (지점이 없으면 null)
+   */
+  async revert(id: string, slackUserId: string, locale: Locale): Promise<RevertResult[] | null> {
+    const point = this.points.find((p) => p.id === id && !p.pendingPush);
+    if (!point) {
+      return null;
+    }
+
+    const log = logger.child({ threadTs: point.threadTs, userId: slackUserId });
+    const results: RevertResult[] = [];
+    for (const repo of point.repos) {
+      try {
+        results.push({
+          name: repo.name,
+          ok: true,
+          ...(await this.revertRepo(repo, slackUserId, locale)),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error("되돌리기 실패", { revertPointId: id, repo: repo.name, error });
+        results.push({ name: repo.name, ok: false, detail: message.split("\n")[0] });
+      }
+    }
+
+    // 모두 성공했을 때만 지점을 정리함 (실패한 저장소는 다시 시도할 수 있게)
+    // 푸시할 revert 커밋이 있으면 확인을 받을 때까지 남겨 둠
+    if (results.every((result) => result.ok)) {
+      const pendingPush = results.filter((result) => result.pushPending).map((r) => r.name);
+      if (pendingPush.length > 0) {
+        point.pendingPush = pendingPush;
+      } else {
+        await this.removePoint(point);
+      }
+      this.persist();
+    }
+
+    log.info("되돌리기", {
+      revertPointId: id,
+      repos: results.map(({ name, ok, detail }) => ({ name, ok, detail })),
+      pendingPush: point.pendingPush ?? [],
+    });
+    return results;
+  }
+
+  /**
+   * 되돌리면서 만든 revert 커밋을 푸시합니다. 모두 성공하면 지점을 삭제합니다.
+   *
+   * @returns 저장소별 결과 (푸시를 기다리는 지점이 없으면 null)
+   */
+  async push(id: string, slackUserId: string, locale: Locale): Promise<RevertResult[] | null> {
+    const point = this.points.find((p) => p.id === id && p.pendingPush);
+    if (!point?.pendingPush) {
+      return null;
+    }
+
+    const log = logger.child({ threadTs: point.threadTs, userId: slackUserId });
+    const results: RevertResult[] = [];
+    for (const repo of point.repos.filter((r) => point.pendingPush?.includes(r.name))) {
+      try {
+        await runGit(repo.path, ["push"]);
+        results.push({ name: repo.name, ok: true, detail: getMessages(locale).revert.stepPushed });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error("revert 커밋 푸시 실패", { revertPointId: id, repo: repo.name, error });
+        results.push({ name: repo.name, ok: false, detail: message.split("\n")[0] });
+      }
+    }
+
+    // 실패한 저장소만 남겨 다시 누를 수 있게 함
+    point.pendingPush = results.filter((result) => !result.ok).map((result) => result.name);
+    if (point.pendingPush.length === 0) {
+      await this.removePoint(point);
+    }
+    this.persist();
+
+    log.info("revert 커밋 푸시", {
+      revertPointId: id,
+      repos: results.map(({ name, ok }) => ({ name, ok })),
+      pendingPush: point.pendingPush,
+    });
+    return results;
+  }
+
+  /**
+   * 저장소 하나를 되돌립니다. 이번 실행이 바꾼 파일만 건드립니다.
+   *
+   * @returns 무엇을 했는지 설명과 푸시 확인이 필요한지
+   */
+  private async revertRepo(
+    repo: RevertRepo,
+    slackUserId: string,
+    locale: Locale,
+  ): Promise<{ detail: string; pushPending: boolean }> {
+    const m = getMessages(locale).revert;
+    const steps: string[] = [];
+    let pushPending = false;
+
+    // 실행 중에 브랜치를 바꿨으면 원래 브랜치로 돌아감 (-f 없이: 다른 변경과 부딪히면 실패)
+    const currentBranch = (await runGit(repo.path, ["branch", "--show-current"])).trim() || null;
+    if (repo.branch && currentBranch !== repo.branch) {
+      await runGit(repo.path, ["checkout", repo.branch]);
+      steps.push(m.stepCheckout(repo.branch));
+    }
+
+    if (repo.newCommits.length > 0) {
+      const head = (await runGit(repo.path, ["rev-parse", "HEAD"])).trim();
+      const remoteBranches = await Promise.all(
+        repo.newCommits.map((hash) => runGit(repo.path, ["branch", "-r", "--contains", hash])),
+      );
+      const isPushed = remoteBranches.some((branches) => branches.trim() !== "");
+
+      if (!isPushed && head === repo.newCommits[0]) {
+        // 작업 트리와 인덱스는 그대로 두고 HEAD만 옮김 (파일은 아래에서 되돌림)
+        await runGit(repo.path, ["reset", "--soft", repo.head]);
+        steps.push(m.stepReset(repo.head.substring(0, 7), repo.newCommits.length));
+      } else {
+        // 이미 푸시됐거나 그 뒤로 다른 커밋이 쌓였으면 히스토리를 지우지 않고 revert 커밋을 만듦
+        // revert는 바뀐 파일이 HEAD와 같아야 하므로 이번 실행의 커밋되지 않은 변경부터 걷어냄
+        await this.restorePaths(repo.path, "HEAD", repo.changedFiles);
+        await runGit(
+          repo.path,
+          ["revert", "--no-edit", ...repo.newCommits],
+          getAuthorEnv(slackUserId),
+        );
+        steps.push(m.stepRevertCommits(repo.newCommits.length));
+        pushPending = isPushed;
+      }
+    }
+
+    // 바뀐 파일을 실행 전 내용으로 (실행 전의 커밋되지 않은 변경 포함)
+    if (repo.changedFiles.length > 0) {
+      await this.restorePaths(repo.path, repo.stash ?? repo.head, repo.changedFiles);
+      // 되돌린 내용은 스테이징하지 않은 변경으로 남김
+      await runGit(repo.path, ["reset", "-q", "HEAD", "--", ...repo.changedFiles]);
+      steps.push(m.stepRestoreFiles(repo.changedFiles.length));
+    }
+
+    // 실행 중에 새로 만든 (추적되지 않는) 파일 삭제
+    if (repo.newFiles.length > 0) {
+      await runGit(repo.path, ["clean", "-f", "--", ...repo.newFiles]);
+      steps.push(m.stepRemoveFiles(repo.newFiles.length));
+    }
+
+    return { detail: steps.length > 0 ? steps.join(", ") : m.stepNothing, pushPending };
+  }
+
+  /**
+   * 파일들을 source 커밋의 내용으로 되돌립니다. source에 없는 파일은 지웁니다.
+   */
+  private async restorePaths(repoPath: string, source: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const existing = new Set(
+      (await runGit(repoPath, ["ls-tree", "-r", "--name-only", source, "--", ...paths]))
+        .split("\n")
+        .filter(Boolean),
+    );
+    const toCheckout = paths.filter((path) => existing.has(path));
+    const toRemove = paths.filter((path) => !existing.has(path));
+
+    if (toCheckout.length > 0) {
+      await runGit(repoPath, ["checkout", source, "--", ...toCheckout]);
+    }
+    if (toRemove.length > 0) {
+      await runGit(repoPath, ["rm", "-q", "-f", "--ignore-unmatch", "--", ...toRemove]);
+    }
+  }
+
+  /**
+   * 지점을 목록에서 지우고 stash 고정 ref를 정리합니다.
+   */
+  private async removePoint(point: RevertPoint): Promise<void> {
+    this.points = this.points.filter((p) => p.id !== point.id);
+    await this.releasePoint(point);
+  }
+
+  /**
+   * 지점의 stash 고정 ref를 지웁니다.
+   */
+  private async releasePoint(point: RevertPoint): Promise<void> {
+    for (const repo of point.repos) {
+      if (!repo.stash) {
+        continue;
+      }
+      try {
+        await runGit(repo.path, ["update-ref", "-d", `refs/vibecoder/${point.id}`]);
+      } catch {
+        // 저장소가 지워졌으면 무시
+      }
+    }
+  }
+
+  /**
+   * 지점들을 파일에 저장합니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonFile(this.storePath, this.points);
+  }
+}
+
+export const revertManager = new RevertManager();
@@ -0,0 +1,64 @@
+/**
+ * 최근 실행 기록
+ *
+ * 끝난 작업(성공/실패/중단)을 최근 것부터 일정 개수만 메모리에 보관합니다.
+ * App Home 대시보드에서 최근 활동을 보여주고, 결과 메시지의 "작업 내역" 창을 여는 데 사용합니다.
+ */
+
+import type { TimelineStep } from "./run-timeline";
+
+/** 실행 결과 */
+export type RunStatus = "succeeded" | "failed" | "aborted";
+
+/** 끝난 실행 한 건 */
+export interface RunRecord {
+  messageId: string;
+  threadTs: string;
+  channel: string;
+  userId: string;
+  userQuery: string;
+  status: RunStatus;
+  durationSeconds: number;
+  toolCallCount: number;
+  finishedAt: Date;
+  /** 실패 시 에러 메시지 */
+  errorMessage?: string;
+  /** 도구 호출 내역 (결과가 나온 실행만) */
+  timeline?: TimelineStep[];
+}
+
+// 보관할 최대 기록 수
+const MAX_RECORDS = 50;
+
+/**
+ * 실행 기록 클래스
+ */
+class RunHistory {
+  private records: RunRecord[] = [];
+
+  /**
+   * 끝난 실행을 기록합니다.
+   */
+  record(run: RunRecord): void {
+    this.records.unshift(run);
+    if (this.records.length > MAX_RECORDS) {
+      this.records.length = MAX_RECORDS;
+    }
+  }
+
+  /**
+   * 최근 실행 기록을 최신순으로 반환합니다.
+   */
+  getRecent(limit: number = MAX_RECORDS): RunRecord[] {
+    return this.records.slice(0, limit);
+  }
+
+  /**
+   * 메시지 ID로 실행 기록을 찾습니다. (오래되어 밀려났으면 null)
+   */
+  get(messageId: string): RunRecord | null {
+    return this.records.find((run) => run.messageId === messageId) ?? null;
+  }
+}
+
+export const runHistory = new RunHistory();
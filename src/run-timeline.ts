@@ -0,0 +1,70 @@
+/**
+ * 실행 타임라인
+ *
+ * 한 번의 실행 동안 호출된 도구를 순서대로 기록합니다.
+ * 진행 메시지에는 마지막 몇 단계를, 결과 메시지의 "작업 내역" 창에는 전체를 보여줍니다.
+ *
+ * 백엔드가 도구 결과(tool_result)를 알려주면 그때 단계를 닫고,
+ * 알려주지 않으면 다음 이벤트(다른 도구 호출, 어시스턴트 텍스트, 최종 결과)가 올 때 성공으로 닫습니다.
+ */
+
+/** 단계 상태 */
+export type TimelineStepStatus = "running" | "succeeded" | "failed";
+
+/** 도구 호출 한 번 */
+export interface TimelineStep {
+  /** 도구 이름 */
+  name: string;
+  /** 핵심 입력 (명령, 파일, 패턴) */
+  input?: string;
+  /** 도구 호출 설명 (Bash의 description 등) */
+  description?: string;
+  status: TimelineStepStatus;
+  /** 시작 시각 (ms) */
+  startedAt: number;
+  /** 걸린 시간 (ms, 아직 실행 중이면 null) */
+  durationMs: number | null;
+}
+
+/**
+ * 실행 타임라인 클래스
+ *
+ * 실행마다 하나씩 만듭니다.
+ */
+export class RunTimeline {
+  private steps: TimelineStep[] = [];
+
+  /**
+   * 도구 호출을 시작합니다. 실행 중인 이전 단계는 성공으로 닫습니다.
+   */
+  startTool(name: string, input?: string, description?: string): void {
+    this.finishRunning("succeeded");
+    this.steps.push({
+      name,
+      input,
+      description,
+      status: "running",
+      startedAt: Date.now(),
+      durationMs: null,
+    });
+  }
+
+  /**
+   * 실행 중인 단계를 닫습니다.
+   */
+  finishRunning(status: Exclude<TimelineStepStatus, "running"> = "succeeded"): void {
+    const step = this.steps[this.steps.length - 1];
+    if (!step || step.status !== "running") {
+      return;
+    }
+    step.status = status;
+    step.durationMs = Date.now() - step.startedAt;
+  }
+
+  /**
+   * 지금까지의 단계를 복사해서 반환합니다.
+   */
+  getSteps(): TimelineStep[] {
+    return this.steps.map((step) => ({ ...step }));
+  }
+}
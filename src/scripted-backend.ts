@@ -0,0 +1,121 @@
+/**
+ * Scripted 백엔드
+ *
+ * 기록해 둔 transcript의 이벤트를 순서대로 그대로 재생합니다.
+ * Claude 로그인 없이 봇 전체 흐름(진행 메시지, 결과, 큐, 중단)을 돌려볼 때와 테스트에 사용합니다.
+ *
+ * transcript는 AGENT_TRANSCRIPT_DIR(기본 data/transcripts)의 *.json 파일이며,
+ * sdk 백엔드가 같은 디렉토리에 실제 실행을 기록해 둘 수 있습니다.
+ *
+ * 요청마다 재생할 transcript는 다음 순서로 고릅니다.
+ * 1. query가 요청과 똑같은 것
+ * 2. match(정규식)가 요청과 맞는 것
+ * 3. query와 match가 모두 없는 것
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { AgentBackend, AgentEvent, AgentRunOptions } from "./agent-backend";
+import { getDataFilePath } from "./json-store";
+
+/** 재생 단계 (이벤트 또는 실패) */
+export type TranscriptStep =
+  | (AgentEvent & {
+      /** 이 이벤트를 보내기 전에 기다릴 시간 (ms) */
+      delayMs?: number;
+    })
+  | { type: "error"; message: string; delayMs?: number };
+
+/** 기록된 실행 한 번 */
+export interface Transcript {
+  /** 이 요청에만 재생 */
+  query?: string;
+  /** 요청이 이 정규식과 맞으면 재생 */
+  match?: string;
+  events: TranscriptStep[];
+}
+
+/**
+ * 중단 신호가 오면 바로 깨어나는 sleep
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // 세션의 signal은 여러 단계에서 재사용되므로 제때 끝난 단계의 리스너는 떼어 냄
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Scripted 백엔드 클래스
+ */
+export class ScriptedBackend implements AgentBackend {
+  readonly name = "scripted";
+
+  private readonly transcripts: Transcript[];
+
+  constructor(transcripts: Transcript[]) {
+    this.transcripts = transcripts;
+  }
+
+  /**
+   * 디렉토리의 transcript 파일들로 백엔드를 만듭니다. 파일 이름 순서로 읽습니다.
+   */
+  static fromDirectory(
+    dir: string = process.env.AGENT_TRANSCRIPT_DIR || getDataFilePath("transcripts"),
+  ): ScriptedBackend {
+    if (!existsSync(dir)) {
+      return new ScriptedBackend([]);
+    }
+
+    const transcripts = readdirSync(dir)
+      .filter((file) => file.endsWith(".json"))
+      .sort()
+      .map((file) => JSON.parse(readFileSync(join(dir, file), "utf-8")) as Transcript);
+    return new ScriptedBackend(transcripts);
+  }
+
+  async run(
+    options: AgentRunOptions,
+    onEvent: (event: AgentEvent) => Promise<void>,
+  ): Promise<void> {
+    const transcript = this.findTranscript(options.userQuery);
+    if (!transcript) {
+      throw new Error(`재생할 transcript가 없습니다: ${options.userQuery}`);
+    }
+
+    for (const step of transcript.events) {
+      const { delayMs, ...event } = step;
+      if (delayMs) {
+        await sleep(delayMs, options.signal);
+      }
+      if (options.signal.aborted) {
+        throw new Error("실행이 중단되었습니다.");
+      }
+
+      if (event.type === "error") {
+        throw new Error(event.message);
+      }
+      await onEvent(event);
+    }
+  }
+
+  /**
+   * 요청에 맞는 transcript를 찾습니다.
+   */
+  private findTranscript(userQuery: string): Transcript | null {
+    return (
+      this.transcripts.find((t) => t.query === userQuery) ??
+      this.transcripts.find((t) => t.match && new RegExp(t.match).test(userQuery)) ??
+      this.transcripts.find((t) => !t.query && !t.match) ??
+      null
+    );
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Claude Code SDK 백엔드
+ *
+ * @instantlyeasy/claude-code-sdk-ts로 실제 Claude를 실행하고
+ * SDK 콜백을 AgentEvent로 바꿔 전달합니다.
+ *
+ * AGENT_TRANSCRIPT_DIR이 설정되어 있으면 실행마다 이벤트를 transcript 파일로 남겨,
+ * 나중에 scripted 백엔드로 그대로 재생할 수 있습니다.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { type ContentBlock, claude, type ToolName } from "@instantlyeasy/claude-code-sdk-ts";
+import type { AgentBackend, AgentEvent, AgentRunOptions } from "./agent-backend";
+import { logger } from "./logger";
+import type { Transcript } from "./scripted-backend";
+
+/**
+ * Claude Code SDK 백엔드 클래스
+ */
+export class SdkBackend implements AgentBackend {
+  readonly name = "sdk";
+
+  async run(
+    options: AgentRunOptions,
+    onEvent: (event: AgentEvent) => Promise<void>,
+  ): Promise<void> {
+    const recorded: AgentEvent[] = [];
+    const emit = async (event: AgentEvent) => {
+      recorded.push(event);
+      await onEvent(event);
+    };
+
+    let sessionIdSent = false;
+    let lastText = "";
+
+    let claudeBuilder = claude()
+      .withConfig({
+        version: "1.0",
+        globalSettings: {
+          cwd: options.cwd,
+          permissionMode: options.permissionMode,
+          env: options.env,
+        },
+        tools: {
+          allowed: options.allowedTools as ToolName[] | undefined,
+          denied: options.deniedTools as ToolName[] | undefined,
+        },
+      })
+      .withSignal(options.signal)
+
+      .onToolUse(async (tool) => {
+        await emit({
+          type: "tool_use",
+          name: tool.name,
+          input: (tool.input as Record<string, unknown> | undefined) ?? {},
+        });
+      })
+
+      .onAssistant(async (content) => {
+        // CLI가 도구 결과를 어시스턴트 메시지에 실어 보내는 경우에만 결과를 알 수 있습니다.
+        for (const block of content) {
+          if (block.type === "tool_result") {
+            await emit({ type: "tool_result", isError: block.is_error ?? false });
+          }
+        }
+
+        const textContent = content.find(
+          (c: ContentBlock): c is ContentBlock & { type: "text"; text: string } =>
+            c.type === "text",
+        );
+        if (textContent) {
+          lastText = textContent.text;
+          await emit({ type: "assistant_text", text: textContent.text });
+        }
+      })
+
+      .onMessage(async (message) => {
+        // 세션 ID는 모든 메시지에 실려 오므로 처음 한 번만 보냅니다.
+        if (message.session_id && !sessionIdSent) {
+          sessionIdSent = true;
+          await emit({ type: "session_id", sessionId: message.session_id });
+        }
+
+        // 사용량은 result 메시지에만 담겨 옵니다.
+        if (message.type === "result") {
+          await emit({
+            type: "result",
+            text: message.content || lastText,
+            usage: message.usage
+              ? {
+                  inputTokens: message.usage.input_tokens ?? 0,
+                  outputTokens: message.usage.output_tokens ?? 0,
+                  cacheCreationTokens: message.usage.cache_creation_input_tokens ?? 0,
+                  cacheReadTokens: message.usage.cache_read_input_tokens ?? 0,
+                  costUsd: message.cost?.total_cost ?? null,
+                }
+              : null,
+          });
+        }
+      });
+
+    if (options.sessionId) {
+      claudeBuilder = claudeBuilder.withSessionId(options.sessionId);
+    }
+
+    // 스트림 메시지는 위의 콜백들에서 처리됩니다.
+    await claudeBuilder.query(options.prompt).stream(async () => {});
+
+    this.saveTranscript(options.userQuery, recorded);
+  }
+
+  /**
+   * 실행 이벤트를 transcript 파일로 남깁니다. (AGENT_TRANSCRIPT_DIR이 있을 때만)
+   */
+  private saveTranscript(userQuery: string, events: AgentEvent[]): void {
+    const dir = process.env.AGENT_TRANSCRIPT_DIR;
+    if (!dir) {
+      return;
+    }
+
+    try {
+      mkdirSync(dir, { recursive: true });
+      const transcript: Transcript = { query: userQuery, events };
+      writeFileSync(
+        join(dir, `${Date.now()}.json`),
+        `${JSON.stringify(transcript, null, 2)}\n`,
+        "utf-8",
+      );
+    } catch (error) {
+      logger.warn("transcript 저장 실패", { dir, error });
+    }
+  }
+}
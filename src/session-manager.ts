@@ -1,18 +1,61 @@
 /**
  * 스레드 기반 세션 관리자
  * 슬랙 스레드 ID(thread_ts)를 키로 사용하여 Claude 세션을 관리합니다.
+ *
+ * 스레드 → Claude 세션 ID 매핑은 data/sessions.json에 저장되어
+ * 앱이 재시작되어도 스레드의 대화 맥락이 유지됩니다.
  */
 
+import { removeAttachments } from "./attachments";
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+import { logger } from "./logger";
+import { removeWorkspace } from "./workspace-manager";
+
 interface Session {
   claudeSessionId: string | null;
+  workspacePath: string | null; // 스레드 전용 작업 공간 (WORKSPACE_MODE=worktree일 때)
   abortController: AbortController;
   createdAt: Date;
   lastActivity: Date;
 }
 
+/** 파일에 저장되는 세션 정보 (abortController는 저장하지 않음) */
+interface StoredSession {
+  claudeSessionId: string | null;
+  workspacePath?: string | null;
+  createdAt: string;
+  lastActivity: string;
+}
+
+type StoredSessions = Record<string, StoredSession>;
+
 class SessionManager {
   private sessions: Map<string, Session> = new Map();
 
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 세션들을 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   * 반환값: 불러온 세션 수
+   */
+  load(storePath: string = getDataFilePath("sessions.json")): number {
+    this.storePath = storePath;
+
+    const stored = readJsonFile<StoredSessions>(storePath, {});
+    for (const [threadTs, entry] of Object.entries(stored)) {
+      this.sessions.set(threadTs, {
+        claudeSessionId: entry.claudeSessionId,
+        workspacePath: entry.workspacePath ?? null,
+        abortController: new AbortController(),
+        createdAt: new Date(entry.createdAt),
+        lastActivity: new Date(entry.lastActivity),
+      });
+    }
+
+    return this.sessions.size;
+  }
+
   /**
    * 스레드에 대한 세션을 가져오거나 새로 생성합니다.
    * @param threadTs 슬랙 스레드 타임스탬프 (없으면 메시지 ts 사용)
@@ -23,6 +66,7 @@ class SessionManager {
     if (!session) {
       session = {
         claudeSessionId: null,
+        workspacePath: null,
         abortController: new AbortController(),
         createdAt: new Date(),
         lastActivity: new Date(),
@@ -31,6 +75,7 @@ class SessionManager {
     }
 
     session.lastActivity = new Date();
+    this.persist();
     return session;
   }
 
@@ -41,6 +86,18 @@ class SessionManager {
     const session = this.sessions.get(threadTs);
     if (session) {
       session.claudeSessionId = sessionId;
+      this.persist();
+    }
+  }
+
+  /**
+   * 세션의 작업 공간 경로를 기록합니다.
+   */
+  setWorkspacePath(threadTs: string, workspacePath: string): void {
+    const session = this.sessions.get(threadTs);
+    if (session) {
+      session.workspacePath = workspacePath;
+      this.persist();
     }
   }
 
@@ -60,12 +117,11 @@ class SessionManager {
 
   /**
    * 세션을 삭제합니다.
+   * 작업 공간이 있으면 함께 삭제합니다.
    */
   deleteSession(threadTs: string): void {
-    const session = this.sessions.get(threadTs);
-    if (session) {
-      session.abortController.abort();
-      this.sessions.delete(threadTs);
+    if (this.removeSession(threadTs)) {
+      this.persist();
     }
   }
 
@@ -75,11 +131,19 @@ class SessionManager {
    */
   cleanupOldSessions(maxAgeMs: number = 60 * 60 * 1000): void {
     const now = Date.now();
+    let removed = 0;
     for (const [threadTs, session] of this.sessions) {
       if (now - session.lastActivity.getTime() > maxAgeMs) {
-        this.deleteSession(threadTs);
+        if (this.removeSession(threadTs)) {
+          removed++;
+        }
       }
     }
+
+    // 저장된 항목도 함께 정리합니다 (한 번만 기록).
+    if (removed > 0) {
+      this.persist();
+    }
   }
 
   /**
@@ -89,6 +153,22 @@ class SessionManager {
     return this.sessions.has(threadTs);
   }
 
+  /**
+   * 세션을 조회합니다 (없으면 null, 활동 시각을 갱신하지 않음).
+   */
+  getSession(threadTs: string): Session | null {
+    return this.sessions.get(threadTs) ?? null;
+  }
+
+  /**
+   * 모든 세션을 최근 활동 순으로 반환합니다.
+   */
+  listSessions(): Array<{ threadTs: string; session: Session }> {
+    return [...this.sessions.entries()]
+      .map(([threadTs, session]) => ({ threadTs, session }))
+      .sort((a, b) => b.session.lastActivity.getTime() - a.session.lastActivity.getTime());
+  }
+
   /**
    * 세션의 AbortSignal을 가져옵니다.
    */
@@ -96,6 +176,50 @@ class SessionManager {
     const session = this.sessions.get(threadTs);
     return session?.abortController.signal ?? null;
   }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  /**
+   * 메모리에서 세션을 제거하고 작업 공간과 첨부 파일을 정리합니다 (저장은 호출자가 담당).
+   */
+  private removeSession(threadTs: string): boolean {
+    const session = this.sessions.get(threadTs);
+    if (!session) {
+      return false;
+    }
+    session.abortController.abort();
+    this.sessions.delete(threadTs);
+
+    if (session.workspacePath) {
+      removeWorkspace(session.workspacePath, threadTs).catch((error) => {
+        logger.error("작업 공간 삭제 실패", { threadTs, error });
+      });
+    }
+    removeAttachments(threadTs);
+    return true;
+  }
+
+  /**
+   * 현재 세션들을 파일에 기록합니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    const stored: StoredSessions = {};
+    for (const [threadTs, session] of this.sessions) {
+      stored[threadTs] = {
+        claudeSessionId: session.claudeSessionId,
+        workspacePath: session.workspacePath,
+        createdAt: session.createdAt.toISOString(),
+        lastActivity: session.lastActivity.toISOString(),
+      };
+    }
+    writeJsonFile(this.storePath, stored);
+  }
 }
 
 export const sessionManager = new SessionManager();
@@ -0,0 +1,464 @@
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { App } from "@slack/bolt";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { setAgentBackend } from "./agent-backend";
+import { ScriptedBackend } from "./scripted-backend";
+import { registerHandlers } from "./slack-handlers";
+import { threadQueueManager } from "./thread-queue";
+import { workerPool } from "./worker-pool";
+
+type SlackBlock = Record<string, unknown>;
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+const CHANNEL = "C_TEST";
+const USER = "U_TEST";
+const ENGLISH_USER = "U_ENGLISH";
+
+/** 메모리 Slack 클라이언트에 남는 메시지 */
+interface RecordedMessage {
+  ts: string;
+  threadTs?: string;
+  text: string;
+  blocks: SlackBlock[];
+}
+
+/**
+ * 메모리 Slack 클라이언트
+ *
+ * 핸들러가 쓰는 Web API 메서드만 흉내 내고, 메시지 전송과 수정을 순서대로 기록합니다.
+ * 유저의 슬랙 언어 설정은 ENGLISH_USER만 영어이고 나머지는 한국어입니다.
+ */
+class InMemorySlackClient {
+  readonly messages: RecordedMessage[] = [];
+  readonly ephemerals: string[] = [];
+  readonly openedViews: Array<{ blocks: SlackBlock[] }> = [];
+  private readonly calls: Array<{ method: "postMessage" | "update"; ts: string; text: string }> =
+    [];
+  private lastTs = 0;
+
+  readonly chat = {
+    postMessage: async (args: {
+      channel: string;
+      thread_ts?: string;
+      text: string;
+      blocks?: SlackBlock[];
+    }) => {
+      const ts = this.nextTs();
+      this.messages.push({
+        ts,
+        threadTs: args.thread_ts,
+        text: args.text,
+        blocks: args.blocks ?? [],
+      });
+      this.calls.push({ method: "postMessage", ts, text: args.text });
+      return { ok: true, ts };
+    },
+    update: async (args: { ts: string; text: string; blocks?: SlackBlock[] }) => {
+      const message = this.messages.find((m) => m.ts === args.ts);
+      if (!message) {
+        throw new Error(`message_not_found: ${args.ts}`);
+      }
+      message.text = args.text;
+      message.blocks = args.blocks ?? [];
+      this.calls.push({ method: "update", ts: args.ts, text: args.text });
+      return { ok: true };
+    },
+    postEphemeral: async (args: { text: string }) => {
+      this.ephemerals.push(args.text);
+      return { ok: true };
+    },
+  };
+
+  readonly files = {
+    uploadV2: async () => ({ ok: true, files: [] }),
+  };
+
+  readonly users = {
+    info: async (args: { user: string }) => ({
+      ok: true,
+      user: { id: args.user, locale: args.user === ENGLISH_USER ? "en-US" : "ko-KR" },
+    }),
+  };
+
+  readonly views = {
+    publish: async () => ({ ok: true }),
+    open: async (args: { view: { blocks: SlackBlock[] } }) => {
+      this.openedViews.push(args.view);
+      return { ok: true };
+    },
+  };
+
+  /**
+   * 사용자가 보낸 메시지를 남깁니다. (봇이 보낸 것이 아니므로 timeline에는 나오지 않음)
+   */
+  receive(text: string, threadTs?: string): string {
+    const ts = this.nextTs();
+    this.messages.push({ ts, threadTs, text, blocks: [] });
+    return ts;
+  }
+
+  private nextTs(): string {
+    this.lastTs++;
+    return `1700000000.${String(this.lastTs).padStart(6, "0")}`;
+  }
+
+  /**
+   * 보낸 순서대로 "메서드 #메시지번호: 텍스트" 목록을 반환합니다.
+   * 경과 시간 갱신처럼 같은 내용을 다시 쓴 업데이트는 하나로 합칩니다.
+   */
+  timeline(): string[] {
+    const lines: string[] = [];
+    for (const call of this.calls) {
+      const index = this.messages.findIndex((m) => m.ts === call.ts) + 1;
+      const line = `${call.method} #${index}: ${call.text}`;
+      if (lines[lines.length - 1] !== line) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+}
+
+/**
+ * 가짜 Bolt 이벤트 소스
+ *
+ * registerHandlers가 등록한 핸들러를 모아 두었다가 멘션과 버튼 클릭을 직접 전달합니다.
+ */
+class FakeSlackApp {
+  readonly client = new InMemorySlackClient();
+  private readonly events = new Map<string, Handler>();
+  private readonly actions = new Map<string, Handler>();
+
+  event(name: string, handler: Handler): void {
+    this.events.set(name, handler);
+  }
+
+  action(actionId: string, handler: Handler): void {
+    this.actions.set(actionId, handler);
+  }
+
+  command(): void {}
+
+  /**
+   * 멘션을 보냅니다. 처리가 끝날 때까지 기다리는 Promise를 반환합니다.
+   */
+  mention(text: string, threadTs?: string, user = USER): Promise<void> {
+    const ts = this.client.receive(text, threadTs);
+    const handler = this.events.get("app_mention") as Handler;
+    return handler({
+      event: {
+        type: "app_mention",
+        user,
+        channel: CHANNEL,
+        text: `<@UBOT> ${text}`,
+        ts,
+        thread_ts: threadTs,
+      },
+      client: this.client,
+      say: (args: { text: string; thread_ts?: string }) =>
+        this.client.chat.postMessage({ channel: CHANNEL, ...args }),
+    });
+  }
+
+  /**
+   * 메시지에 달린 버튼을 누릅니다.
+   */
+  click(message: RecordedMessage, actionId: string): Promise<void> {
+    const button = message.blocks
+      .flatMap((block) => (block.elements as SlackBlock[] | undefined) ?? [])
+      .find((element) => element.action_id === actionId);
+    if (!button) {
+      throw new Error(`버튼이 없습니다: ${actionId}`);
+    }
+
+    const handler = this.actions.get(actionId) as Handler;
+    return handler({
+      body: {
+        type: "block_actions",
+        user: { id: USER },
+        channel: { id: CHANNEL },
+        message: { ts: message.ts, thread_ts: message.threadTs },
+        actions: [button],
+        trigger_id: "trigger-test",
+      },
+      ack: async () => {},
+      client: this.client,
+    });
+  }
+}
+
+const backend = new ScriptedBackend([
+  {
+    query: "짧은 작업",
+    events: [
+      { type: "session_id", sessionId: "session-short" },
+      { type: "tool_use", name: "Read", input: { file_path: "README.md" }, delayMs: 10 },
+      { type: "tool_use", name: "Bash", input: { command: "pnpm test" } },
+      { type: "tool_result", isError: true },
+      { type: "result", text: "짧은 작업 끝", usage: null, delayMs: 10 },
+    ],
+  },
+  {
+    query: "조금 걸리는 작업",
+    events: [{ type: "result", text: "조금 걸리는 작업 끝", usage: null, delayMs: 100 }],
+  },
+  {
+    query: "긴 작업",
+    events: [{ type: "result", text: "긴 작업 끝", usage: null, delayMs: 60_000 }],
+  },
+  {
+    query: "계획을 세우는 작업",
+    events: [
+      {
+        type: "tool_use",
+        name: "TodoWrite",
+        input: {
+          todos: [
+            { content: "코드 읽기", status: "completed", activeForm: "코드 읽는 중" },
+            { content: "테스트 실행", status: "in_progress", activeForm: "테스트 실행 중" },
+            { content: "정리", status: "pending", activeForm: "정리하는 중" },
+          ],
+        },
+      },
+      { type: "result", text: "계획대로 끝", usage: null, delayMs: 10 },
+    ],
+  },
+  {
+    query: "실패하는 작업",
+    events: [{ type: "error", message: "백엔드 연결 실패", delayMs: 100 }],
+  },
+]);
+
+const THINKING = `<@${USER}> 🤔 생각하는 중...`;
+const WORKING = `<@${USER}> 작업 중...`;
+const ABORTED = "작업이 중단되었습니다.";
+const CANCELLED = "요청이 취소되었습니다.";
+const ERRORED = `<@${USER}> 오류가 발생했습니다.`;
+const QUEUED = `<@${USER}> 큐잉됨 (다음 순서입니다)`;
+const done = (text: string) => `<@${USER}> ${text}...`;
+
+describe("슬랙 핸들러 흐름", () => {
+  let projectDir: string;
+  let app: FakeSlackApp;
+
+  beforeAll(() => {
+    // 로컬 설정 파일(접근 제어, 채널 정책, 한도)과 저장소 스냅샷의 영향을 받지 않도록 함
+    projectDir = mkdtempSync(join(tmpdir(), "vibecoder-test-"));
+    writeFileSync(join(projectDir, "github-users.json"), "{}");
+    vi.stubEnv("PROJECT_DIR", projectDir);
+    vi.stubEnv("CLAUDE_CWD", "");
+    vi.stubEnv("LOG_LEVEL", "error");
+    setAgentBackend(backend);
+  });
+
+  afterAll(() => {
+    setAgentBackend(null);
+    vi.unstubAllEnvs();
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    // 다음 테스트가 전역 슬롯을 물려받지 않도록 모든 작업이 끝날 때까지 기다림
+    await vi.waitFor(() => expect(workerPool.getActiveCount()).toBe(0));
+  });
+
+  const setup = () => {
+    app = new FakeSlackApp();
+    registerHandlers(app as unknown as App);
+    return app;
+  };
+
+  it("바로 처리한 요청은 진행 상황을 거쳐 결과로 끝난다", async () => {
+    const { client } = setup();
+
+    await app.mention("짧은 작업");
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `update #2: ${WORKING}`,
+      `update #2: ${done("짧은 작업 끝")}`,
+    ]);
+  });
+
+  it("슬랙 언어 설정이 영어인 유저에게는 영어로 안내한다", async () => {
+    const { client } = setup();
+
+    await app.mention("짧은 작업", undefined, ENGLISH_USER);
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: <@${ENGLISH_USER}> 🤔 Thinking...`,
+      `update #2: <@${ENGLISH_USER}> Working...`,
+      `update #2: <@${ENGLISH_USER}> 짧은 작업 끝...`,
+    ]);
+    const text = JSON.stringify(client.messages[1].blocks);
+    expect(text).toContain("2 tool calls");
+    expect(text).toContain("📜 Run history");
+  });
+
+  it("결과의 작업 내역 버튼은 도구 호출 내역을 창으로 보여준다", async () => {
+    const { client } = setup();
+
+    await app.mention("짧은 작업");
+    await app.click(client.messages[1], "show_timeline");
+
+    const text = JSON.stringify(client.openedViews[0].blocks);
+    expect(text).toContain("1. ✅ *Read* `README.md`");
+    expect(text).toContain("2. ❌ *Bash* `pnpm test`");
+  });
+
+  it("TodoWrite 계획은 결과 메시지에 체크리스트로 남는다", async () => {
+    const { client } = setup();
+
+    await app.mention("계획을 세우는 작업");
+
+    const text = JSON.stringify(client.messages[1].blocks);
+    expect(text).toContain("*📋 계획* _(1/3 완료)_");
+    expect(text).toContain("✅ ~코드 읽기~");
+    expect(text).toContain("🔄 *테스트 실행 중*");
+    expect(text).toContain("⬜ 정리");
+  });
+
+  it("처리 중에 온 요청은 큐에서 기다렸다가 같은 메시지에서 처리된다", async () => {
+    const { client } = setup();
+
+    const first = app.mention("조금 걸리는 작업");
+    await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+    const threadTs = client.messages[0].ts;
+
+    await app.mention("짧은 작업", threadTs);
+    await first;
+    await vi.waitFor(() => expect(threadQueueManager.isProcessing(threadTs)).toBe(false));
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `postMessage #4: ${QUEUED}`,
+      `update #2: ${done("조금 걸리는 작업 끝")}`,
+      `update #4: ${THINKING}`,
+      `update #4: ${WORKING}`,
+      `update #4: ${done("짧은 작업 끝")}`,
+    ]);
+  });
+
+  it("즉시 처리를 누르면 진행 중인 작업을 중단하고 그 요청을 먼저 처리한다", async () => {
+    const { client } = setup();
+
+    const first = app.mention("긴 작업");
+    await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+    const threadTs = client.messages[0].ts;
+
+    await app.mention("짧은 작업", threadTs);
+    await app.click(client.messages[3], "process_now");
+    await first;
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `postMessage #4: ${QUEUED}`,
+      `update #2: ${ABORTED}`,
+      `update #4: ${THINKING}`,
+      `update #4: ${WORKING}`,
+      `update #4: ${done("짧은 작업 끝")}`,
+    ]);
+    expect(threadQueueManager.isProcessing(threadTs)).toBe(false);
+  });
+
+  it("취소한 요청은 처리되지 않는다", async () => {
+    const { client } = setup();
+
+    const first = app.mention("조금 걸리는 작업");
+    await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+    const threadTs = client.messages[0].ts;
+
+    await app.mention("짧은 작업", threadTs);
+    await app.click(client.messages[3], "cancel_queued");
+    await first;
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `postMessage #4: ${QUEUED}`,
+      `update #4: ${CANCELLED}`,
+      `update #2: ${done("조금 걸리는 작업 끝")}`,
+    ]);
+    expect(threadQueueManager.getQueueLength(threadTs)).toBe(0);
+  });
+
+  it("멈춰를 누르면 중단 메시지로 끝나고 대기 중인 요청으로 넘어간다", async () => {
+    const { client } = setup();
+
+    const first = app.mention("긴 작업");
+    await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+    const threadTs = client.messages[0].ts;
+
+    await app.mention("짧은 작업", threadTs);
+    await app.click(client.messages[1], "stop_claude");
+    await first;
+    await vi.waitFor(() => expect(threadQueueManager.isProcessing(threadTs)).toBe(false));
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `postMessage #4: ${QUEUED}`,
+      `update #2: ${ABORTED}`,
+      `update #4: ${THINKING}`,
+      `update #4: ${WORKING}`,
+      `update #4: ${done("짧은 작업 끝")}`,
+    ]);
+  });
+
+  it("큐에서 기다리는 동안 사용량 한도에 도달한 요청은 시작하지 않고 한도 안내로 바꾼다", async () => {
+    const { client } = setup();
+    const quotaUser = "U_QUOTA";
+    const quotasPath = join(projectDir, "quotas.json");
+    writeFileSync(quotasPath, JSON.stringify({ users: { [quotaUser]: { runsPerHour: 1 } } }));
+
+    try {
+      const first = app.mention("조금 걸리는 작업");
+      await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+      const threadTs = client.messages[0].ts;
+
+      // 멘션할 때는 아직 실행이 없어 둘 다 큐에 들어감
+      await app.mention("짧은 작업", threadTs, quotaUser);
+      await app.mention("짧은 작업", threadTs, quotaUser);
+      await first;
+      await vi.waitFor(() => expect(threadQueueManager.isProcessing(threadTs)).toBe(false));
+
+      expect(client.timeline()).toEqual([
+        `postMessage #2: ${THINKING}`,
+        `postMessage #4: <@${quotaUser}> 큐잉됨 (다음 순서입니다)`,
+        `postMessage #6: <@${quotaUser}> 큐잉됨 (2번째 순서입니다)`,
+        `update #2: ${done("조금 걸리는 작업 끝")}`,
+        `update #4: <@${quotaUser}> 🤔 생각하는 중...`,
+        `update #4: <@${quotaUser}> 작업 중...`,
+        `update #4: <@${quotaUser}> 짧은 작업 끝...`,
+        "update #6: 시간당 실행 한도(1회) 초과",
+      ]);
+    } finally {
+      unlinkSync(quotasPath);
+    }
+  });
+
+  it("실패한 작업은 에러를 표시하고 대기 중인 요청을 한 번만 이어서 처리한다", async () => {
+    const { client } = setup();
+
+    const first = app.mention("실패하는 작업");
+    await vi.waitFor(() => expect(client.messages).toHaveLength(2));
+    const threadTs = client.messages[0].ts;
+
+    await app.mention("조금 걸리는 작업", threadTs);
+    await first;
+
+    // 실패한 작업이 정리되면서 이어서 시작된 작업의 상태를 지우면 안 됨
+    expect(threadQueueManager.isProcessing(threadTs)).toBe(true);
+    expect(workerPool.isActive(threadTs)).toBe(true);
+
+    await vi.waitFor(() => expect(threadQueueManager.isProcessing(threadTs)).toBe(false));
+
+    expect(client.timeline()).toEqual([
+      `postMessage #2: ${THINKING}`,
+      `postMessage #4: ${QUEUED}`,
+      `update #2: ${ERRORED}`,
+      `update #4: ${THINKING}`,
+      `update #4: ${done("조금 걸리는 작업 끝")}`,
+    ]);
+  });
+});
@@ -0,0 +1,1292 @@
+/**
+ * 슬랙 핸들러
+ *
+ * 멘션, 버튼 액션, 홈 탭, /vibe 커맨드 핸들러를 모아 두고 registerHandlers로 앱에 등록합니다.
+ * app.ts는 앱 생성과 시작만 맡고, 테스트에서는 가짜 이벤트 소스와 메모리 Slack 클라이언트로
+ * 같은 핸들러를 구동합니다.
+ */
+
+import type {
+  AllMiddlewareArgs,
+  App,
+  BlockAction,
+  ButtonAction,
+  SlackActionMiddlewareArgs,
+  SlackCommandMiddlewareArgs,
+  SlackEventMiddlewareArgs,
+} from "@slack/bolt";
+import { type AccessDenial, checkAccess, isAdmin } from "./access-control";
+import { downloadAttachments, type SavedAttachment } from "./attachments";
+import { abortSession, handleClaudeQuery } from "./claude-handler";
+import { getMessages, type Locale, parseLocale } from "./i18n";
+import { logger } from "./logger";
+import { metrics } from "./monitoring";
+import { type QuotaViolation, quotaManager } from "./quota-manager";
+import { ResponseHandler } from "./response-handler";
+import { revertManager } from "./revert-manager";
+import { type RunStatus, runHistory } from "./run-history";
+import type { TimelineStep } from "./run-timeline";
+import { sessionManager } from "./session-manager";
+import {
+  buildAccessDeniedMessage,
+  buildCancelledMessage,
+  buildHomeView,
+  buildQueuedMessage,
+  buildQuotaExceededMessage,
+  buildResumingMessage,
+  buildRevertPushResultMessage,
+  buildRevertResultMessage,
+  buildTimelineModal,
+  buildVibeHelpMessage,
+  buildVibeNoticeMessage,
+  buildVibeSessionsMessage,
+  buildVibeStatusMessage,
+  buildVibeThreadMessage,
+  buildVibeUsageMessage,
+  getUserMention,
+} from "./slack-message";
+import {
+  generateMessageId,
+  type QueuedMessage,
+  type RestoredThread,
+  threadQueueManager,
+} from "./thread-queue";
+import { toolApprovalManager } from "./tool-approval";
+import { usageLedger } from "./usage-ledger";
+import { userLocales } from "./user-locales";
+import { workerPool } from "./worker-pool";
+
+type SlackWebClient = App["client"];
+
+// 핸들러별 인자 타입
+type MentionArgs = SlackEventMiddlewareArgs<"app_mention"> & AllMiddlewareArgs;
+type HomeOpenedArgs = SlackEventMiddlewareArgs<"app_home_opened"> & AllMiddlewareArgs;
+type ButtonActionArgs = SlackActionMiddlewareArgs<BlockAction<ButtonAction>> & AllMiddlewareArgs;
+type CommandArgs = SlackCommandMiddlewareArgs & AllMiddlewareArgs;
+
+// ============================================================================
+// 접근 제어
+// ============================================================================
+
+/**
+ * 접근이 거부된 유저에게 본인에게만 보이는 안내를 보냅니다.
+ */
+async function postAccessDenied(
+  client: SlackWebClient,
+  userId: string,
+  channel: string,
+  denial: AccessDenial,
+  threadTs?: string,
+): Promise<void> {
+  const log = logger.child({ threadTs, userId, channel });
+  log.info("접근 거부", { reason: denial.reason });
+
+  const locale = await userLocales.resolve(client, userId);
+  const { blocks, fallbackText } = buildAccessDeniedMessage(locale, denial);
+  try {
+    await client.chat.postEphemeral({
+      channel,
+      user: userId,
+      thread_ts: threadTs,
+      text: fallbackText,
+      blocks,
+    });
+  } catch (error) {
+    log.error("접근 거부 안내 전송 실패", { error });
+  }
+}
+
+/**
+ * 버튼을 누른 유저가 조작할 수 있는지 확인합니다.
+ * App Home 대시보드의 버튼은 관리자만 누를 수 있습니다.
+ *
+ * 반환값: 허용 여부 (거부 시 안내까지 보냄)
+ */
+async function ensureActionAllowed(
+  client: SlackWebClient,
+  body: BlockAction<ButtonAction>,
+): Promise<boolean> {
+  const userId = body.user.id;
+
+  if (body.view?.type === "home") {
+    if (isAdmin(userId)) {
+      return true;
+    }
+    logger.warn("관리자가 아닌 유저의 홈 탭 조작", { userId });
+    return false;
+  }
+
+  const channel = body.channel?.id;
+  const denial = checkAccess(userId, channel);
+  if (!denial) {
+    return true;
+  }
+
+  if (channel) {
+    await postAccessDenied(client, userId, channel, denial, body.message?.thread_ts);
+  }
+  return false;
+}
+
+// ============================================================================
+// 사용량 한도
+// ============================================================================
+
+/**
+ * 사용량 한도 초과 안내를 보냅니다.
+ * 큐에서 기다리던 요청이면 "큐잉됨" 메시지를 안내로 바꿉니다.
+ */
+async function postQuotaExceeded(
+  client: SlackWebClient,
+  channel: string,
+  threadTs: string,
+  userId: string,
+  locale: Locale,
+  violation: QuotaViolation,
+  existingResponseTs?: string,
+): Promise<void> {
+  const { blocks, fallbackText } = buildQuotaExceededMessage(locale, userId, violation);
+  try {
+    if (existingResponseTs) {
+      await client.chat.update({ channel, ts: existingResponseTs, text: fallbackText, blocks });
+    } else {
+      await client.chat.postMessage({ channel, thread_ts: threadTs, text: fallbackText, blocks });
+    }
+  } catch (error) {
+    logger.error("사용량 한도 안내 전송 실패", { threadTs, userId, channel, error });
+  }
+}
+
+// ============================================================================
+// 이벤트 핸들러
+// ============================================================================
+
+/**
+ * 멘션 이벤트 핸들러
+ */
+async function handleMention({ event, client, say }: MentionArgs): Promise<void> {
+  const userId = event.user ?? "unknown";
+  const channel = event.channel;
+
+  // 세션 키: 항상 사용자 메시지가 스레드 루트
+  const threadTs = event.thread_ts ?? event.ts;
+
+  // 허용되지 않은 유저/채널이면 본인에게만 안내하고 무시
+  const denial = checkAccess(userId, channel);
+  if (denial) {
+    await postAccessDenied(client, userId, channel, denial, threadTs);
+    return;
+  }
+
+  // 멘션에서 봇 태그 제거하고 실제 메시지 추출
+  const botMentionRegex = /<@[A-Z0-9]+>/g;
+  const fileIds = (event.files ?? []).map((file) => file.id);
+  const locale = await userLocales.resolve(client, userId);
+  const m = getMessages(locale);
+  const userQuery =
+    event.text.replace(botMentionRegex, "").trim() ||
+    (fileIds.length > 0 ? m.run.attachmentsOnlyQuery : "");
+
+  if (!userQuery) {
+    await say({
+      text: `${getUserMention(userId)} ${m.run.emptyMention}`.trim(),
+      thread_ts: threadTs,
+    });
+    return;
+  }
+
+  const log = logger.child({ threadTs, userId, channel });
+  log.info("멘션 수신", { query: userQuery, fileCount: fileIds.length });
+
+  // 사용량 한도를 넘었으면 큐에 넣지 않고 거절
+  const violation = quotaManager.check(userId, channel);
+  if (violation) {
+    log.info("사용량 한도 초과로 거절", {
+      scope: violation.scope,
+      kind: violation.kind,
+      limit: violation.limit,
+    });
+    await postQuotaExceeded(client, channel, threadTs, userId, locale, violation);
+    return;
+  }
+
+  // 첨부 파일은 큐잉 여부와 관계없이 바로 내려받아 둠 (슬랙 파일 URL은 봇 토큰이 있어야 접근 가능)
+  let attachments: SavedAttachment[] = [];
+  if (fileIds.length > 0) {
+    // 첨부 파일은 세션과 함께 정리되므로 세션을 먼저 만들어 둠
+    sessionManager.getOrCreateSession(threadTs);
+    const { saved, skipped } = await downloadAttachments(client, threadTs, fileIds, locale);
+    attachments = saved;
+
+    if (skipped.length > 0) {
+      const lines = skipped.map((file) => `• ${file.name}: ${file.reason}`);
+      await say({
+        text: `${getUserMention(userId)} ${m.run.skippedAttachments}\n${lines.join("\n")}`.trim(),
+        thread_ts: threadTs,
+      });
+    }
+  }
+
+  // 이미 처리 중이거나, 대기 중인 메시지가 있거나, 전역 슬롯이 없으면 큐잉
+  if (
+    threadQueueManager.isProcessing(threadTs) ||
+    threadQueueManager.getQueueLength(threadTs) > 0 ||
+    !workerPool.tryAcquire(threadTs)
+  ) {
+    // 큐잉 메시지 전송
+    const messageId = generateMessageId();
+    const queuePosition = threadQueueManager.getQueueLength(threadTs) + 1;
+
+    // 스레드가 쉬고 있는데 큐잉된 것이라면 전역 슬롯을 기다리는 중
+    const globalPosition = threadQueueManager.isProcessing(threadTs)
+      ? undefined
+      : workerPool.wait(threadTs);
+
+    const { blocks, fallbackText } = buildQueuedMessage(
+      locale,
+      userId,
+      threadTs,
+      messageId,
+      queuePosition,
+      globalPosition,
+    );
+
+    const response = await client.chat.postMessage({
+      channel,
+      thread_ts: threadTs,
+      text: fallbackText,
+      blocks,
+    });
+
+    if (response.ts) {
+      const queuedMessage: QueuedMessage = {
+        id: messageId,
+        userQuery,
+        userId,
+        channel,
+        responseTs: response.ts,
+        queuedAt: new Date(),
+        status: "queued",
+        attachments,
+      };
+      threadQueueManager.enqueue(threadTs, queuedMessage);
+    }
+    return;
+  }
+
+  // 바로 처리 시작
+  await startProcessing(
+    client,
+    channel,
+    threadTs,
+    userId,
+    userQuery,
+    generateMessageId(),
+    undefined,
+    attachments,
+  );
+}
+
+/**
+ * 메시지 처리를 시작합니다.
+ *
+ * 호출 전에 해당 스레드가 전역 슬롯(workerPool)을 가지고 있어야 합니다.
+ * 응답 핸들러를 생성하고 Claude를 호출합니다.
+ * 완료 후 큐에 다음 메시지가 있으면 자동으로 처리합니다.
+ */
+async function startProcessing(
+  client: SlackWebClient,
+  channel: string,
+  threadTs: string,
+  userId: string,
+  userQuery: string,
+  messageId: string,
+  existingResponseTs?: string,
+  attachments: SavedAttachment[] = [],
+): Promise<void> {
+  const log = logger.child({ threadTs, messageId, userId, channel });
+  const handler = new ResponseHandler(client, channel, threadTs, userId, log);
+
+  // 다음 처리로는 한 번만 넘어감
+  // (onError 뒤에 에러가 다시 던져져도 그 사이 시작된 다음 작업의 처리 상태와 슬롯을 지우지 않도록)
+  let handedOff = false;
+  const handOff = () => {
+    if (!handedOff) {
+      handedOff = true;
+      processNextInQueue(client, threadTs);
+    }
+  };
+
+  // tryStartProcessing으로 atomic하게 시작
+  if (!threadQueueManager.tryStartProcessing(threadTs, handler, messageId)) {
+    // 이미 처리 중 (경쟁 상태에서 다른 곳에서 시작됨)
+    log.warn("이미 처리 중인 스레드");
+    return;
+  }
+
+  // 요청한 사람의 언어 조회
+  // (처리 상태를 잡기 전에 기다리면 그 사이 새 멘션이 먼저 시작해 이 요청이 버려질 수 있음)
+  const locale = await userLocales.resolve(client, userId);
+
+  // 큐에서 기다리는 동안 한도에 도달했을 수 있으므로 시작 직전에 다시 확인
+  const violation = quotaManager.check(userId, channel);
+  if (violation) {
+    log.info("사용량 한도 초과로 거절", {
+      scope: violation.scope,
+      kind: violation.kind,
+      limit: violation.limit,
+      fromQueue: Boolean(existingResponseTs),
+    });
+    await postQuotaExceeded(
+      client,
+      channel,
+      threadTs,
+      userId,
+      locale,
+      violation,
+      existingResponseTs,
+    );
+    handOff();
+    return;
+  }
+
+  // 응답 메시지 생성 또는 기존 메시지 재사용
+  let responseTs: string | null;
+  if (existingResponseTs) {
+    // 큐에서 온 경우: 기존 큐잉 메시지를 업데이트
+    responseTs = await handler.startWithExistingMessage(existingResponseTs, locale);
+  } else {
+    // 새 요청: 새 메시지 생성
+    responseTs = await handler.start(locale);
+  }
+
+  if (!responseTs) {
+    handOff();
+    return;
+  }
+
+  // 재시작 시 이어서 처리할 수 있도록 처리 중인 메시지를 기록
+  threadQueueManager.setCurrentMessage(threadTs, {
+    id: messageId,
+    userQuery,
+    userId,
+    channel,
+    responseTs,
+    queuedAt: new Date(),
+    status: "queued",
+    attachments,
+  });
+
+  log.event("started", { fromQueue: Boolean(existingResponseTs) });
+  quotaManager.startRun(messageId, userId, channel);
+
+  // 결과/에러 콜백이 불리지 않고 끝나면 중단된 것
+  let status: RunStatus = "aborted";
+  let toolCallCount = 0;
+  let errorMessage: string | undefined;
+  let timeline: TimelineStep[] | undefined;
+
+  try {
+    await handleClaudeQuery(
+      threadTs,
+      userQuery,
+      {
+        onProgress: async (text, steps, elapsedSeconds, toolCallCount, plan) => {
+          // 현재 핸들러가 아니면 업데이트 스킵
+          if (threadQueueManager.getCurrentMessageId(threadTs) !== messageId) {
+            return;
+          }
+
+          // 실행당 도구 호출 한도를 넘으면 중단
+          const violation = quotaManager.checkToolCalls(userId, channel, toolCallCount);
+          if (violation) {
+            if (!handler.getIsCompleted()) {
+              log.warn("도구 호출 한도 초과로 중단", { toolCallCount, limit: violation.limit });
+              abortSession(threadTs);
+              await handler.showQuotaExceeded(violation);
+              handOff();
+            }
+            return;
+          }
+          await handler.updateProgress(text, steps, elapsedSeconds, toolCallCount, plan);
+        },
+
+        onResult: async (text, summary) => {
+          status = "succeeded";
+          toolCallCount = summary.toolCallCount;
+          timeline = summary.timeline;
+          if (summary.usage) {
+            usageLedger.record(userId, channel, summary.usage);
+          }
+          await handler.showResult(
+            text,
+            summary.durationSeconds,
+            summary.toolCallCount,
+            summary.usage,
+            summary.gitChanges,
+            summary.revertPointId,
+            summary.timeline.length > 0 ? messageId : null,
+            summary.plan,
+          );
+          handOff();
+        },
+
+        onError: async (error) => {
+          status = "failed";
+          errorMessage = error.message;
+          await handler.showError(error);
+          handOff();
+        },
+      },
+      channel,
+      userId,
+      attachments,
+      locale,
+      log,
+    );
+  } catch (error) {
+    log.error("Claude 처리 중 오류", { error });
+    handler.stopTimer();
+    handOff();
+    status = "failed";
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const durationSeconds = handler.getElapsedSeconds();
+  const totalToolCalls = Math.max(toolCallCount, handler.getToolCallCount());
+  quotaManager.finishRun(messageId, durationSeconds);
+  runHistory.record({
+    messageId,
+    threadTs,
+    channel,
+    userId,
+    userQuery,
+    status,
+    durationSeconds,
+    toolCallCount: totalToolCalls,
+    finishedAt: new Date(),
+    errorMessage,
+    timeline,
+  });
+  metrics.recordRun(status, durationSeconds);
+  log.event(status, { durationSeconds, toolCallCount: totalToolCalls, errorMessage });
+}
+
+/**
+ * 큐에서 다음 메시지를 처리합니다.
+ *
+ * 스레드의 처리를 끝내고 전역 슬롯을 반납합니다.
+ * 스레드에 남은 메시지가 있으면 전역 대기열 맨 뒤에 줄을 세운 뒤,
+ * 빈 슬롯만큼 대기 중인 스레드들을 깨웁니다.
+ */
+function processNextInQueue(client: SlackWebClient, threadTs: string): void {
+  threadQueueManager.resetProcessingState(threadTs);
+  workerPool.release(threadTs);
+
+  if (threadQueueManager.getQueueLength(threadTs) > 0) {
+    workerPool.wait(threadTs);
+  }
+
+  drainWaitingThreads(client);
+}
+
+/**
+ * 취소 등으로 스레드에 더 기다릴 메시지가 없으면 전역 대기열에서 뺍니다.
+ * (빈 스레드가 대기열 앞을 막고 있지 않도록)
+ */
+function leaveWaitingIfIdle(client: SlackWebClient, threadTs: string): void {
+  if (
+    !threadQueueManager.isProcessing(threadTs) &&
+    threadQueueManager.getQueueLength(threadTs) === 0
+  ) {
+    workerPool.removeWaiting(threadTs);
+    drainWaitingThreads(client);
+  }
+}
+
+/**
+ * 빈 전역 슬롯이 있는 동안 대기열의 스레드들을 차례로 처리합니다.
+ */
+function drainWaitingThreads(client: SlackWebClient): void {
+  for (
+    let threadTs = workerPool.takeNextWaiting();
+    threadTs !== null;
+    threadTs = workerPool.takeNextWaiting()
+  ) {
+    const nextMessage = threadQueueManager.finishProcessing(threadTs);
+    if (!nextMessage) {
+      // 그 사이 모두 취소됨
+      workerPool.release(threadTs);
+      continue;
+    }
+
+    const log = logger.child({
+      threadTs,
+      messageId: nextMessage.id,
+      userId: nextMessage.userId,
+      channel: nextMessage.channel,
+    });
+    log.info("큐에서 다음 처리", {
+      activeRuns: workerPool.getActiveCount(),
+      maxConcurrent: workerPool.getMaxConcurrent(),
+    });
+
+    // 비동기로 다음 메시지 처리 시작
+    startProcessing(
+      client,
+      nextMessage.channel,
+      threadTs,
+      nextMessage.userId,
+      nextMessage.userQuery,
+      nextMessage.id,
+      nextMessage.responseTs,
+      nextMessage.attachments,
+    ).catch((error) => {
+      log.error("큐 처리 중 오류", { error });
+    });
+  }
+}
+
+/**
+ * "멈춰!" 버튼 액션 핸들러
+ */
+async function handleStop({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const action = body.actions[0] as ButtonAction;
+  const threadTs = action.value;
+
+  if (!threadTs) {
+    logger.error("스레드 정보 없음");
+    return;
+  }
+
+  logger.info("중단 요청", { threadTs, userId: body.user.id });
+
+  const handler = threadQueueManager.getCurrentHandler(threadTs);
+
+  // 세션 중단
+  const aborted = abortSession(threadTs);
+
+  if (aborted && handler) {
+    await handler.showAborted();
+    // 큐에서 다음 메시지 처리
+    processNextInQueue(client, threadTs);
+  }
+
+  await refreshHomeIfNeeded(client, body);
+}
+
+/**
+ * 도구 승인 "승인"/"거부" 버튼 액션 핸들러
+ *
+ * 대기 중인 훅 요청에 결과를 전달합니다.
+ * 메시지 갱신은 결과를 받은 승인 라우트에서 처리합니다.
+ */
+async function handleToolApprovalAction(body: BlockAction<ButtonAction>, approved: boolean) {
+  const action = body.actions[0] as ButtonAction;
+  if (!action.value) {
+    logger.error("액션 값 없음");
+    return;
+  }
+
+  let threadTs: string;
+  let approvalId: string;
+  try {
+    const parsed = JSON.parse(action.value);
+    threadTs = parsed.threadTs;
+    approvalId = parsed.approvalId;
+  } catch {
+    logger.error("액션 값 파싱 실패", { value: action.value });
+    return;
+  }
+
+  logger.info("도구 승인 응답", { threadTs, userId: body.user.id, approvalId, approved });
+
+  if (!toolApprovalManager.respond(approvalId, approved, body.user.id)) {
+    logger.warn("이미 처리됐거나 만료된 승인 요청", { threadTs, approvalId });
+  }
+}
+
+async function handleApprove({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+  if (await ensureActionAllowed(client, body)) {
+    await handleToolApprovalAction(body, true);
+  }
+}
+
+async function handleDeny({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+  if (await ensureActionAllowed(client, body)) {
+    await handleToolApprovalAction(body, false);
+  }
+}
+
+/**
+ * "즉시 처리" 버튼 액션 핸들러
+ */
+async function handleProcessNow({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const action = body.actions[0] as ButtonAction;
+  const channel = body.channel?.id;
+
+  if (!channel || !action.value) {
+    logger.error("채널 또는 액션 값 없음");
+    return;
+  }
+
+  let threadTs: string;
+  let messageId: string;
+  try {
+    const parsed = JSON.parse(action.value);
+    threadTs = parsed.threadTs;
+    messageId = parsed.messageId;
+  } catch {
+    logger.error("액션 값 파싱 실패", { value: action.value });
+    return;
+  }
+
+  logger.info("즉시 처리 요청", { threadTs, messageId, userId: body.user.id });
+
+  // 전역 슬롯이 없으면 바로 처리할 수 없으므로 스레드 내 순서만 앞당김
+  if (!workerPool.isActive(threadTs)) {
+    if (threadQueueManager.moveToFront(threadTs, messageId)) {
+      const locale = await userLocales.resolve(client, body.user.id);
+      await client.chat.postEphemeral({
+        channel,
+        user: body.user.id,
+        thread_ts: threadTs,
+        text: getMessages(locale).queue.poolFull(workerPool.getMaxConcurrent()),
+      });
+    }
+    return;
+  }
+
+  // 큐에서 해당 메시지 추출
+  const message = threadQueueManager.prioritize(threadTs, messageId);
+  if (!message) {
+    logger.warn("큐에서 메시지를 찾을 수 없음", { threadTs, messageId });
+    return;
+  }
+
+  // 현재 처리 중인 핸들러가 있으면 중단
+  const currentHandler = threadQueueManager.getCurrentHandler(threadTs);
+  if (currentHandler) {
+    abortSession(threadTs);
+    await currentHandler.showAborted();
+    // 큐는 건드리지 않고 처리 상태만 리셋 (다른 큐 항목 보존)
+    threadQueueManager.resetProcessingState(threadTs);
+  }
+
+  // 해당 메시지 즉시 처리 시작
+  await startProcessing(
+    client,
+    message.channel,
+    threadTs,
+    message.userId,
+    message.userQuery,
+    message.id,
+    message.responseTs,
+    message.attachments,
+  );
+}
+
+/**
+ * "취소" 버튼 액션 핸들러
+ */
+async function handleCancelQueued({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const action = body.actions[0] as ButtonAction;
+
+  if (!action.value) {
+    logger.error("액션 값 없음");
+    return;
+  }
+
+  let threadTs: string;
+  let messageId: string;
+  try {
+    const parsed = JSON.parse(action.value);
+    threadTs = parsed.threadTs;
+    messageId = parsed.messageId;
+  } catch {
+    logger.error("액션 값 파싱 실패", { value: action.value });
+    return;
+  }
+
+  logger.info("취소 요청", { threadTs, messageId, userId: body.user.id });
+
+  // 취소할 메시지 조회
+  const message = threadQueueManager.getQueuedMessage(threadTs, messageId);
+  if (!message) {
+    logger.warn("큐에서 메시지를 찾을 수 없음", { threadTs, messageId });
+    return;
+  }
+
+  // 큐에서 취소
+  const cancelled = threadQueueManager.cancelQueued(threadTs, messageId);
+  if (!cancelled) {
+    logger.warn("메시지 취소 실패", { threadTs, messageId });
+    return;
+  }
+
+  leaveWaitingIfIdle(client, threadTs);
+
+  // 메시지 업데이트 (요청한 사람의 언어로)
+  const locale = await userLocales.resolve(client, message.userId);
+  const { blocks, fallbackText } = buildCancelledMessage(locale, message.userId);
+  try {
+    await client.chat.update({
+      channel: message.channel,
+      ts: message.responseTs,
+      text: fallbackText,
+      blocks,
+    });
+  } catch (error) {
+    logger.error("취소 메시지 업데이트 실패", { threadTs, messageId, error });
+  }
+
+  await refreshHomeIfNeeded(client, body);
+}
+
+/**
+ * 되돌리기/푸시 버튼의 값을 읽고, 지금 저장소를 건드려도 되는지 확인합니다.
+ *
+ * 되돌리기는 CLAUDE_CWD의 저장소를 직접 바꾸므로 어느 스레드든 작업이 돌고 있으면 거절합니다.
+ * 거절하면 누른 사람에게만 보이는 안내를 보냅니다.
+ *
+ * 반환값: 진행할 정보 (거절했거나 값이 잘못됐으면 null)
+ */
+async function prepareRevertAction(
+  client: SlackWebClient,
+  body: BlockAction<ButtonAction>,
+  isAvailable: (revertPointId: string) => boolean,
+  unavailableText: (locale: Locale) => string,
+): Promise<{ channel: string; threadTs: string; revertPointId: string; locale: Locale } | null> {
+  const action = body.actions[0] as ButtonAction;
+  const channel = body.channel?.id;
+
+  if (!channel || !action.value) {
+    logger.error("채널 또는 액션 값 없음");
+    return null;
+  }
+
+  let threadTs: string;
+  let revertPointId: string;
+  try {
+    const parsed = JSON.parse(action.value);
+    threadTs = parsed.threadTs;
+    revertPointId = parsed.revertPointId;
+  } catch {
+    logger.error("액션 값 파싱 실패", { value: action.value });
+    return null;
+  }
+
+  logger.info("되돌리기 요청", {
+    threadTs,
+    userId: body.user.id,
+    revertPointId,
+    actionId: action.action_id,
+  });
+
+  const locale = await userLocales.resolve(client, body.user.id);
+  const refusal =
+    workerPool.getActiveCount() > 0
+      ? getMessages(locale).revert.busy
+      : !isAvailable(revertPointId)
+        ? unavailableText(locale)
+        : null;
+  if (refusal) {
+    await client.chat.postEphemeral({
+      channel,
+      user: body.user.id,
+      thread_ts: threadTs,
+      text: refusal,
+    });
+    return null;
+  }
+
+  return { channel, threadTs, revertPointId, locale };
+}
+
+/**
+ * "되돌리기" 버튼 액션 핸들러
+ *
+ * 이번 실행이 바꾼 파일을 실행 전 상태로 되돌리고 결과를 스레드에 남깁니다.
+ */
+async function handleRevert({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const prepared = await prepareRevertAction(
+    client,
+    body,
+    (id) => revertManager.has(id),
+    (locale) => getMessages(locale).revert.unavailable,
+  );
+  if (!prepared) {
+    return;
+  }
+  const { channel, threadTs, revertPointId, locale } = prepared;
+
+  const results = await revertManager.revert(revertPointId, body.user.id, locale);
+  if (!results) {
+    return;
+  }
+
+  const { blocks, fallbackText } = buildRevertResultMessage(
+    locale,
+    body.user.id,
+    results,
+    threadTs,
+    revertPointId,
+  );
+  await client.chat.postMessage({
+    channel,
+    thread_ts: threadTs,
+    text: fallbackText,
+    blocks,
+  });
+}
+
+/**
+ * revert 커밋 "푸시" 버튼 액션 핸들러
+ *
+ * 되돌리면서 만든 revert 커밋을 확인을 받은 뒤에 푸시합니다.
+ */
+async function handlePushRevert({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const prepared = await prepareRevertAction(
+    client,
+    body,
+    (id) => revertManager.hasPendingPush(id),
+    (locale) => getMessages(locale).revert.pushUnavailable,
+  );
+  if (!prepared) {
+    return;
+  }
+  const { channel, threadTs, revertPointId, locale } = prepared;
+
+  const results = await revertManager.push(revertPointId, body.user.id, locale);
+  if (!results) {
+    return;
+  }
+
+  const { blocks, fallbackText } = buildRevertPushResultMessage(
+    locale,
+    body.user.id,
+    results,
+    threadTs,
+    revertPointId,
+  );
+  await client.chat.postMessage({
+    channel,
+    thread_ts: threadTs,
+    text: fallbackText,
+    blocks,
+  });
+}
+
+/**
+ * "작업 내역" 버튼 액션 핸들러
+ *
+ * 실행 기록에 남은 도구 호출 내역을 모달로 보여줍니다.
+ */
+async function handleShowTimeline({ body, ack, client }: ButtonActionArgs): Promise<void> {
+  await ack();
+
+  if (!(await ensureActionAllowed(client, body))) {
+    return;
+  }
+
+  const action = body.actions[0] as ButtonAction;
+  const channel = body.channel?.id;
+
+  if (!channel || !action.value) {
+    logger.error("채널 또는 액션 값 없음");
+    return;
+  }
+
+  let threadTs: string;
+  let messageId: string;
+  try {
+    const parsed = JSON.parse(action.value);
+    threadTs = parsed.threadTs;
+    messageId = parsed.messageId;
+  } catch {
+    logger.error("액션 값 파싱 실패", { value: action.value });
+    return;
+  }
+
+  // 실행 기록은 메모리에 최근 것만 남으므로 재시작했거나 오래된 실행은 볼 수 없음
+  const locale = await userLocales.resolve(client, body.user.id);
+  const run = runHistory.get(messageId);
+  if (!run?.timeline) {
+    await client.chat.postEphemeral({
+      channel,
+      user: body.user.id,
+      thread_ts: threadTs,
+      text: getMessages(locale).timeline.unavailable,
+    });
+    return;
+  }
+
+  try {
+    await client.views.open({
+      trigger_id: body.trigger_id,
+      view: buildTimelineModal(locale, run.userQuery, run.timeline),
+    });
+  } catch (error) {
+    logger.error("작업 내역 창 열기 실패", { threadTs, messageId, error });
+  }
+}
+
+// ============================================================================
+// App Home 대시보드
+// ============================================================================
+
+/**
+ * 유저의 홈 탭에 대시보드를 게시합니다.
+ */
+async function publishHome(client: SlackWebClient, userId: string): Promise<void> {
+  const threads = threadQueueManager.getActiveSnapshots().map((snapshot) => {
+    const handler = snapshot.isProcessing
+      ? threadQueueManager.getCurrentHandler(snapshot.threadTs)
+      : null;
+    return {
+      snapshot,
+      progress: handler
+        ? {
+            elapsedSeconds: handler.getElapsedSeconds(),
+            toolCallCount: handler.getToolCallCount(),
+          }
+        : null,
+    };
+  });
+
+  const view = buildHomeView(
+    await userLocales.resolve(client, userId),
+    threads,
+    {
+      active: workerPool.getActiveCount(),
+      max: workerPool.getMaxConcurrent(),
+      waiting: workerPool.getWaitingCount(),
+    },
+    runHistory.getRecent(),
+    isAdmin(userId),
+  );
+
+  try {
+    await client.views.publish({
+      user_id: userId,
+      view,
+    });
+  } catch (error) {
+    logger.error("홈 탭 게시 실패", { userId, error });
+  }
+}
+
+/**
+ * 홈 탭에서 누른 버튼이면 대시보드를 다시 게시합니다.
+ */
+async function refreshHomeIfNeeded(
+  client: SlackWebClient,
+  body: BlockAction<ButtonAction>,
+): Promise<void> {
+  if (body.view?.type === "home") {
+    await publishHome(client, body.user.id);
+  }
+}
+
+/**
+ * 홈 탭 열림 이벤트 핸들러
+ */
+async function handleHomeOpened({ event, client }: HomeOpenedArgs): Promise<void> {
+  if (event.tab !== "home") {
+    return;
+  }
+  await publishHome(client, event.user);
+}
+
+// ============================================================================
+// 슬래시 커맨드
+// ============================================================================
+
+/**
+ * /vibe 인자에서 스레드 타임스탬프를 추출합니다.
+ *
+ * 지원 형식:
+ * - 1700000000.123456
+ * - https://xxx.slack.com/archives/C123/p1700000000123456 (?thread_ts=... 가 있으면 그 값)
+ */
+function parseThreadArg(arg: string | undefined): string | null {
+  if (!arg) {
+    return null;
+  }
+
+  const value = arg.replace(/^<|>$/g, "");
+  if (/^\d+\.\d+$/.test(value)) {
+    return value;
+  }
+
+  const threadTsParam = value.match(/[?&]thread_ts=(\d+\.\d+)/);
+  if (threadTsParam) {
+    return threadTsParam[1];
+  }
+
+  const permalink = value.match(/\/p(\d{10})(\d{6})/);
+  return permalink ? `${permalink[1]}.${permalink[2]}` : null;
+}
+
+/**
+ * /vibe 슬래시 커맨드 핸들러
+ *
+ * 모든 응답은 명령을 입력한 사람에게만 보이는 ephemeral 메시지입니다.
+ */
+async function handleVibeCommand({ command, ack, respond, client }: CommandArgs): Promise<void> {
+  await ack();
+
+  const [subcommand = "", threadArg] = command.text.trim().split(/\s+/);
+  const threadTs = parseThreadArg(threadArg);
+  const locale = await userLocales.resolve(client, command.user_id);
+  const m = getMessages(locale).vibe;
+
+  logger.info("/vibe 명령", {
+    userId: command.user_id,
+    channel: command.channel_id,
+    text: command.text,
+  });
+
+  const reply = async ({ blocks, fallbackText }: ReturnType<typeof buildVibeNoticeMessage>) => {
+    await respond({
+      response_type: "ephemeral",
+      text: fallbackText,
+      blocks,
+    });
+  };
+
+  const denial = checkAccess(command.user_id, command.channel_id);
+  if (denial) {
+    await reply(buildAccessDeniedMessage(locale, denial));
+    return;
+  }
+
+  // 스레드 인자가 필요한 명령
+  if (["cancel", "reset"].includes(subcommand) && !threadTs) {
+    await reply(buildVibeNoticeMessage(m.threadRequired(subcommand)));
+    return;
+  }
+
+  switch (subcommand) {
+    case "":
+    case "status": {
+      if (threadTs) {
+        await reply(
+          buildVibeThreadMessage(
+            locale,
+            threadTs,
+            threadQueueManager.getSnapshot(threadTs),
+            sessionManager.getSession(threadTs),
+          ),
+        );
+        return;
+      }
+      await reply(
+        buildVibeStatusMessage(
+          locale,
+          threadQueueManager.getActiveSnapshots(),
+          {
+            active: workerPool.getActiveCount(),
+            max: workerPool.getMaxConcurrent(),
+            waiting: workerPool.getWaitingCount(),
+          },
+          sessionManager.listSessions().length,
+        ),
+      );
+      return;
+    }
+
+    case "sessions": {
+      await reply(buildVibeSessionsMessage(locale, sessionManager.listSessions()));
+      return;
+    }
+
+    case "usage": {
+      // 두 번째 인자는 스레드가 아니라 일수 (기본 7일, 최대 90일)
+      const days = Math.min(Math.max(parseInt(threadArg ?? "7", 10) || 7, 1), 90);
+      await reply(buildVibeUsageMessage(locale, usageLedger.getReport(days), days));
+      return;
+    }
+
+    case "lang": {
+      // 두 번째 인자는 스레드가 아니라 언어 (없으면 지금 설정을 보여줌)
+      const value = threadArg?.toLowerCase();
+      if (!value) {
+        const isExplicit = userLocales.getPreference(command.user_id) !== null;
+        await reply(buildVibeNoticeMessage(m.languageStatus(m.languageNames[locale], isExplicit)));
+        return;
+      }
+      if (value === "auto") {
+        userLocales.setPreference(command.user_id, null);
+        const resolved = await userLocales.resolve(client, command.user_id);
+        await reply(buildVibeNoticeMessage(getMessages(resolved).vibe.languageAuto));
+        return;
+      }
+
+      const chosen = parseLocale(value);
+      if (!chosen) {
+        await reply(buildVibeNoticeMessage(m.languageUnknown(threadArg as string)));
+        return;
+      }
+      userLocales.setPreference(command.user_id, chosen);
+      const chosenMessages = getMessages(chosen).vibe;
+      await reply(
+        buildVibeNoticeMessage(chosenMessages.languageSet(chosenMessages.languageNames[chosen])),
+      );
+      return;
+    }
+
+    case "cancel": {
+      const cancelledThreadTs = threadTs as string;
+      const cancelled = threadQueueManager.cancelAllQueued(cancelledThreadTs);
+      leaveWaitingIfIdle(client, cancelledThreadTs);
+
+      for (const message of cancelled) {
+        const { blocks, fallbackText } = buildCancelledMessage(
+          await userLocales.resolve(client, message.userId),
+          message.userId,
+        );
+        try {
+          await client.chat.update({
+            channel: message.channel,
+            ts: message.responseTs,
+            text: fallbackText,
+            blocks,
+          });
+        } catch (error) {
+          logger.error("취소 메시지 업데이트 실패", {
+            threadTs: cancelledThreadTs,
+            messageId: message.id,
+            error,
+          });
+        }
+      }
+
+      await reply(
+        buildVibeNoticeMessage(
+          cancelled.length > 0
+            ? m.cancelledQueued(cancelledThreadTs, cancelled.length)
+            : m.nothingQueued(cancelledThreadTs),
+        ),
+      );
+      return;
+    }
+
+    case "reset": {
+      const resetThreadTs = threadTs as string;
+      if (threadQueueManager.isProcessing(resetThreadTs)) {
+        await reply(buildVibeNoticeMessage(m.resetBusy));
+        return;
+      }
+      if (!sessionManager.hasSession(resetThreadTs)) {
+        await reply(buildVibeNoticeMessage(m.noSessionToReset(resetThreadTs)));
+        return;
+      }
+
+      sessionManager.deleteSession(resetThreadTs);
+      await reply(buildVibeNoticeMessage(m.sessionReset(resetThreadTs)));
+      return;
+    }
+
+    default:
+      await reply(buildVibeHelpMessage(locale));
+  }
+}
+
+/**
+ * 재시작 전에 남아 있던 큐를 이어서 처리합니다.
+ *
+ * 고아가 된 메시지들을 "이어서 처리" 상태로 업데이트한 뒤
+ * 스레드들을 전역 대기열에 세우고 빈 슬롯만큼 처리를 재개합니다.
+ */
+export async function resumeRestoredThreads(
+  client: SlackWebClient,
+  restoredThreads: RestoredThread[],
+): Promise<void> {
+  for (const { threadTs, messages } of restoredThreads) {
+    for (const [index, message] of messages.entries()) {
+      const { blocks, fallbackText } = buildResumingMessage(
+        await userLocales.resolve(client, message.userId),
+        message.userId,
+        threadTs,
+        message.id,
+        index + 1,
+      );
+      try {
+        await client.chat.update({
+          channel: message.channel,
+          ts: message.responseTs,
+          text: fallbackText,
+          blocks,
+        });
+      } catch (error) {
+        logger.error("재개 메시지 업데이트 실패", { threadTs, messageId: message.id, error });
+      }
+    }
+
+    // 그 사이 새 멘션으로 이미 처리 중이면, 그 작업이 끝날 때 큐가 이어서 처리됨
+    if (threadQueueManager.isProcessing(threadTs)) {
+      continue;
+    }
+
+    logger.info("재시작 후 큐 재개", { threadTs, queueLength: messages.length });
+    workerPool.wait(threadTs);
+  }
+
+  drainWaitingThreads(client);
+}
+
+// ============================================================================
+// 등록
+// ============================================================================
+
+/**
+ * 모든 핸들러를 앱에 등록합니다.
+ */
+export function registerHandlers(app: App): void {
+  app.event("app_mention", handleMention);
+  app.event("app_home_opened", handleHomeOpened);
+
+  app.action<BlockAction<ButtonAction>>("stop_claude", handleStop);
+  app.action<BlockAction<ButtonAction>>("approve_tool", handleApprove);
+  app.action<BlockAction<ButtonAction>>("deny_tool", handleDeny);
+  app.action<BlockAction<ButtonAction>>("process_now", handleProcessNow);
+  app.action<BlockAction<ButtonAction>>("cancel_queued", handleCancelQueued);
+  app.action<BlockAction<ButtonAction>>("revert_run", handleRevert);
+  app.action<BlockAction<ButtonAction>>("push_revert", handlePushRevert);
+  app.action<BlockAction<ButtonAction>>("show_timeline", handleShowTimeline);
+
+  app.command("/vibe", handleVibeCommand);
+}
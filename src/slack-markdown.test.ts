@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { markdownToMrkdwn } from "./slack-markdown";
+
+describe("markdownToMrkdwn", () => {
+  it("제목은 굵은 글씨로 바꾼다", () => {
+    expect(markdownToMrkdwn("# 요약\n## **변경** 사항 ##")).toBe("*요약*\n*변경 사항*");
+  });
+
+  it("굵게, 기울임, 취소선을 mrkdwn 기호로 바꾼다", () => {
+    expect(markdownToMrkdwn("**굵게** __굵게__ *기울임* _기울임_ ***둘 다*** ~~취소~~")).toBe(
+      "*굵게* *굵게* _기울임_ _기울임_ *_둘 다_* ~취소~",
+    );
+  });
+
+  it("강조가 아닌 별표와 밑줄은 그대로 둔다", () => {
+    expect(markdownToMrkdwn("2 * 3 * 4 = 24, a*b, snake_case_name, \\*별표\\*")).toBe(
+      "2 * 3 * 4 = 24, a*b, snake_case_name, *별표*",
+    );
+  });
+
+  it("링크와 이미지는 Slack 링크로 바꾸고, URL과 기존 Slack 링크는 건드리지 않는다", () => {
+    expect(
+      markdownToMrkdwn(
+        "[**PR** 보기](https://github.com/a/b/pull/1) ![스크린샷](https://x.dev/a_b_c.png)\n" +
+          "https://x.dev/some_path_name <https://slack.com|슬랙> <@U123>",
+      ),
+    ).toBe(
+      "<https://github.com/a/b/pull/1|PR 보기> <https://x.dev/a_b_c.png|스크린샷>\n" +
+        "https://x.dev/some_path_name <https://slack.com|슬랙> <@U123>",
+    );
+  });
+
+  it("목록, 할 일 목록, 인용, 가로줄을 바꾼다", () => {
+    expect(
+      markdownToMrkdwn(
+        "- 첫째 **중요**\n  * 하위\n- [ ] 할 일\n- [x] 한 일\n1. 번호 목록\n---\n> 인용 **굵게**",
+      ),
+    ).toBe(
+      "• 첫째 *중요*\n  ◦ 하위\n• ☐ 할 일\n• ☑ 한 일\n1. 번호 목록\n──────────\n> 인용 *굵게*",
+    );
+  });
+
+  it("코드 블록과 인라인 코드는 건드리지 않는다", () => {
+    const markdown = [
+      "`**그대로**` 두기",
+      "```ts",
+      "# 주석 아님",
+      "const a = b ** 2; // *곱하기*",
+      "```",
+      "**밖**",
+    ].join("\n");
+
+    expect(markdownToMrkdwn(markdown)).toBe(
+      [
+        "`**그대로**` 두기",
+        "```ts",
+        "# 주석 아님",
+        "const a = b ** 2; // *곱하기*",
+        "```",
+        "*밖*",
+      ].join("\n"),
+    );
+  });
+
+  it("닫히지 않은 코드 블록은 끝까지 코드로 본다", () => {
+    expect(markdownToMrkdwn("```\n**a**\n- b")).toBe("```\n**a**\n- b");
+  });
+
+  it("표는 열을 맞춘 코드 블록으로 바꾼다 (한글은 두 칸)", () => {
+    const markdown = [
+      "결과:",
+      "| 이름 | 개수 | 비고 |",
+      "|:-----|-----:|:----:|",
+      "| 한글 | 12 | `x` |",
+      "| abc | 3456 | **y** |",
+      "",
+      "끝",
+    ].join("\n");
+
+    expect(markdownToMrkdwn(markdown)).toBe(
+      [
+        "결과:",
+        "```",
+        "이름 | 개수 | 비고",
+        "-----+------+-----",
+        "한글 |   12 |  x",
+        "abc  | 3456 |  y",
+        "```",
+        "",
+        "끝",
+      ].join("\n"),
+    );
+  });
+});
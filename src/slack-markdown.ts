@@ -0,0 +1,236 @@
+/**
+ * Markdown → Slack mrkdwn 변환
+ *
+ * Claude는 시키지 않아도 **굵게**, # 제목, [텍스트](url), 표 같은 Markdown을 씁니다.
+ * Slack mrkdwn은 문법이 달라서 그대로 보내면 기호가 그대로 보이므로 보내기 전에 바꿉니다.
+ *
+ * - 코드 블록(```)과 인라인 코드는 건드리지 않습니다.
+ * - 이미 Slack 형식인 링크/멘션(<https://...|텍스트>, <@U123>)과 맨 URL도 건드리지 않습니다.
+ * - 표는 mrkdwn에 없으므로 열을 맞춘 코드 블록으로 바꿉니다.
+ */
+
+// 변환하면 안 되는 조각을 잠시 바꿔 두는 자리표시자 (사용자 영역 문자라 본문과 겹치지 않음)
+const PLACEHOLDER = "\uE000";
+// **굵게**를 *굵게*로 바꾸기 전에 잠시 두는 표시. 기울임(*x* → _x_) 변환과 섞이지 않게 함.
+const BOLD = "\uE001";
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HORIZONTAL_RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+type TableAlignment = "left" | "center" | "right";
+
+/**
+ * Markdown 텍스트를 Slack mrkdwn으로 바꿉니다.
+ */
+export function markdownToMrkdwn(markdown: string): string {
+  const lines = markdown.split("\n");
+  const output: string[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // 코드 블록 안은 그대로 둡니다. 닫히지 않은 코드 블록은 끝까지 코드로 봅니다.
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      output.push(line);
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    // 표: 머리 줄 다음에 구분 줄(|---|---|)이 와야 표로 봅니다.
+    if (line.includes("|") && TABLE_SEPARATOR_PATTERN.test(lines[i + 1] ?? "")) {
+      const tableLines = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim() !== "") {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      i--;
+      output.push(convertTable(tableLines));
+      continue;
+    }
+
+    output.push(convertLine(line));
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * 코드 블록 밖의 한 줄을 변환합니다.
+ */
+function convertLine(line: string): string {
+  // 제목 → 굵은 글씨 (안쪽의 굵게 표시는 겹치지 않게 뺌)
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)(\s+#+)?\s*$/);
+  if (heading) {
+    const content = convertInline(heading[1]).replaceAll(BOLD, "");
+    return content ? finalize(`*${content}*`) : "";
+  }
+
+  // 가로줄
+  if (HORIZONTAL_RULE_PATTERN.test(line)) {
+    return "──────────";
+  }
+
+  // 인용 (Slack도 > 를 쓰므로 안쪽만 변환)
+  const quote = line.match(/^(\s*>+\s?)(.*)$/);
+  if (quote) {
+    return `${quote[1]}${convertLine(quote[2])}`;
+  }
+
+  // 글머리 목록 (할 일 목록 포함). 들여쓴 항목은 다른 기호로 표시합니다.
+  const bullet = line.match(/^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/);
+  if (bullet) {
+    const [, indent, task, content] = bullet;
+    const marker = indent.length > 0 ? "◦" : "•";
+    const checkbox = task === undefined ? "" : task === " " ? "☐ " : "☑ ";
+    return finalize(`${indent}${marker} ${checkbox}${convertInline(content)}`);
+  }
+
+  return finalize(convertInline(line));
+}
+
+/**
+ * 줄 안의 강조, 링크, 취소선을 변환합니다.
+ * 굵게 표시는 BOLD로 남겨 두므로 finalize로 마무리해야 합니다.
+ */
+function convertInline(text: string): string {
+  const tokens: string[] = [];
+  const protect = (value: string) => {
+    tokens.push(value);
+    return `${PLACEHOLDER}${tokens.length - 1}${PLACEHOLDER}`;
+  };
+
+  let result = text
+    // 인라인 코드, 이미 Slack 형식인 링크/멘션, 맨 URL, 이스케이프한 문자는 보호
+    .replace(/`[^`\n]+`/g, (code) => protect(code))
+    .replace(/<(?:https?:\/\/|mailto:|[@#!])[^>\s]*(?:\|[^>]*)?>/g, (token) => protect(token))
+    .replace(/\\([\\`*_{}[\]()#+\-.!~|>])/g, (_, char: string) => protect(char))
+    // 이미지와 링크 → <url|텍스트>
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) => {
+      const cleanLabel = stripInlineMarkdown(label).replace(/[<>|]/g, "");
+      return protect(cleanLabel ? `<${url}|${cleanLabel}>` : `<${url}>`);
+    })
+    .replace(/https?:\/\/[^\s<>]+/g, (url) => protect(url));
+
+  result = result
+    // 굵은 기울임 → 굵게 + 기울임
+    .replace(/\*\*\*(?!\s)(.+?)(?<!\s)\*\*\*/g, `${BOLD}_$1_${BOLD}`)
+    // 굵게
+    .replace(/\*\*(?!\s)(.+?)(?<!\s)\*\*/g, `${BOLD}$1${BOLD}`)
+    .replace(/(^|[^\w])__(?!\s)(.+?)(?<!\s)__(?!\w)/g, `$1${BOLD}$2${BOLD}`)
+    // 기울임 (*x* → _x_, _x_는 Slack과 같음)
+    .replace(/(^|[^*\w])\*(?![\s*])([^*\n]+?)(?<!\s)\*(?![*\w])/g, "$1_$2_")
+    // 취소선
+    .replace(/~~(?!\s)(.+?)(?<!\s)~~/g, "~$1~");
+
+  // 보호한 조각 되돌리기 (링크 텍스트 안에 다른 조각이 있을 수 있어 없어질 때까지 반복)
+  const placeholderPattern = new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, "g");
+  while (placeholderPattern.test(result)) {
+    result = result.replace(placeholderPattern, (_, index: string) => tokens[Number(index)]);
+  }
+  return result;
+}
+
+/**
+ * 굵게 표시를 Slack의 *로 바꿉니다.
+ */
+function finalize(text: string): string {
+  return text.replaceAll(BOLD, "*");
+}
+
+/**
+ * 표 칸처럼 서식을 쓸 수 없는 곳을 위해 Markdown 기호를 걷어냅니다.
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/(\*\*|__)(?!\s)(.+?)(?<!\s)\1/g, "$2")
+    .replace(/~~(?!\s)(.+?)(?<!\s)~~/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!~|>])/g, "$1");
+}
+
+/**
+ * Markdown 표를 열을 맞춘 코드 블록으로 바꿉니다.
+ */
+function convertTable(tableLines: string[]): string {
+  const [header, separator, ...body] = tableLines.map(splitTableRow);
+  const alignments: TableAlignment[] = separator.map((cell) => {
+    if (cell.startsWith(":") && cell.endsWith(":")) return "center";
+    if (cell.endsWith(":")) return "right";
+    return "left";
+  });
+
+  const rows = [header, ...body].map((row) =>
+    header.map((_, column) => stripInlineMarkdown(row[column] ?? "")),
+  );
+  const widths = header.map((_, column) =>
+    Math.max(3, ...rows.map((row) => getDisplayWidth(row[column]))),
+  );
+
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => padCell(cell, widths[column], alignments[column] ?? "left"))
+      .join(" | ")
+      .trimEnd();
+  const divider = widths.map((width) => "-".repeat(width)).join("-+-");
+
+  return ["```", formatRow(rows[0]), divider, ...rows.slice(1).map(formatRow), "```"].join("\n");
+}
+
+/**
+ * 표 한 줄을 칸으로 나눕니다. (\|는 칸 구분이 아님)
+ */
+function splitTableRow(line: string): string[] {
+  const trimmed = line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * 칸을 정렬에 맞게 공백으로 채웁니다.
+ */
+function padCell(cell: string, width: number, alignment: TableAlignment): string {
+  const padding = width - getDisplayWidth(cell);
+  if (alignment === "right") {
+    return " ".repeat(padding) + cell;
+  }
+  if (alignment === "center") {
+    const left = Math.floor(padding / 2);
+    return " ".repeat(left) + cell + " ".repeat(padding - left);
+  }
+  return cell + " ".repeat(padding);
+}
+
+/**
+ * 고정폭 글꼴에서의 표시 너비를 계산합니다. 한글, 한자, 전각 문자와 이모지는 2칸으로 셉니다.
+ */
+function getDisplayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    const isWide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1f300 && code <= 0x1faff);
+    width += isWide ? 2 : 1;
+  }
+  return width;
+}
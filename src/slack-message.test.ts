@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { buildHomeView, buildProgressMessage, splitTextForSlack } from "./slack-message";
+import type { QueuedMessage } from "./thread-queue";
+
+/** 코드 블록이 모두 닫혀 있는지 확인 */
+function hasBalancedFences(chunk: string): boolean {
+  return chunk.split("\n").filter((line) => line.trim().startsWith("```")).length % 2 === 0;
+}
+
+describe("splitTextForSlack", () => {
+  it("한도보다 짧은 텍스트는 그대로 둔다", () => {
+    expect(splitTextForSlack("짧은 답변", 100)).toEqual(["짧은 답변"]);
+  });
+
+  it("줄바꿈에서 자른다", () => {
+    const text = `${"가".repeat(60)}\n${"나".repeat(60)}`;
+    expect(splitTextForSlack(text, 100)).toEqual(["가".repeat(60), "나".repeat(60)]);
+  });
+
+  it("코드 블록 중간에서 자르면 닫고 다음 청크에서 같은 언어로 다시 연다", () => {
+    const code = Array.from({ length: 20 }, (_, i) => `  const value${i} = ${i};`).join("\n");
+    const text = `설명입니다.\n\`\`\`ts\n${code}\n\`\`\`\n끝.`;
+
+    const chunks = splitTextForSlack(text, 200);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+      expect(hasBalancedFences(chunk)).toBe(true);
+    }
+    expect(chunks[0].startsWith("설명입니다.\n```ts\n")).toBe(true);
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.startsWith("```ts\n")).toBe(true);
+    }
+    // 다시 열고 닫은 펜스를 빼면 코드가 들여쓰기까지 그대로 남는다
+    const joined = chunks.join("\n").replaceAll("\n```\n```ts\n", "\n");
+    expect(joined).toBe(text);
+  });
+
+  it("코드 블록을 여는 줄 바로 뒤에서는 자르지 않는다", () => {
+    const text = `${"가".repeat(80)}\n\`\`\`\n${"x".repeat(30)}\n\`\`\``;
+    const chunks = splitTextForSlack(text, 100);
+
+    expect(chunks[0]).toBe("가".repeat(80));
+    expect(chunks[1]).toBe(`\`\`\`\n${"x".repeat(30)}\n\`\`\``);
+  });
+
+  it("인라인 코드, 링크, 멘션 안에서는 자르지 않는다", () => {
+    const inlineCode = `${"가".repeat(40)} \`npm run build --filter app\` 뒤`;
+    const link = `${"가".repeat(40)} <https://example.com|링크 텍스트 입니다> 뒤`;
+    const mention = `${"가".repeat(50)}<@U12345678>`;
+
+    expect(splitTextForSlack(inlineCode, 60)).toEqual([
+      "가".repeat(40),
+      "`npm run build --filter app` 뒤",
+    ]);
+    expect(splitTextForSlack(link, 60)).toEqual([
+      "가".repeat(40),
+      "<https://example.com|링크 텍스트 입니다> 뒤",
+    ]);
+    expect(splitTextForSlack(mention, 60)).toEqual(["가".repeat(50), "<@U12345678>"]);
+  });
+});
+
+describe("buildProgressMessage", () => {
+  it("승인을 기다리는 동안에는 진행 상황이 바뀌어도 승인/거부 버튼을 남긴다", () => {
+    const approval = { approvalId: "a1", command: "git push", timeoutSeconds: 120 };
+    const { blocks, fallbackText } = buildProgressMessage(
+      "ko",
+      "U1",
+      "1700000000.000001",
+      "다음 단계 진행 중",
+      [],
+      5,
+      2,
+      [],
+      undefined,
+      [approval],
+    );
+
+    const actionIds = blocks
+      .filter((block) => block.type === "actions")
+      .flatMap((block) => (block.elements as Array<{ action_id: string }>).map((e) => e.action_id));
+    expect(actionIds).toEqual(["approve_tool", "deny_tool", "stop_claude"]);
+    expect(fallbackText).toBe("<@U1> 승인이 필요합니다: git push");
+  });
+});
+
+describe("buildHomeView", () => {
+  it("대기 메시지가 많아도 블록 수 제한 안에서 최근 실행 섹션을 남긴다", () => {
+    const queued = (threadTs: string, index: number): QueuedMessage => ({
+      id: `${threadTs}-${index}`,
+      userQuery: `요청 ${index}`,
+      userId: "U1",
+      channel: "C1",
+      responseTs: threadTs,
+      queuedAt: new Date(),
+      status: "queued",
+    });
+    const threads = Array.from({ length: 20 }, (_, i) => {
+      const threadTs = `1700000000.0000${String(i).padStart(2, "0")}`;
+      return {
+        snapshot: {
+          threadTs,
+          isProcessing: true,
+          currentMessage: queued(threadTs, 0),
+          queue: Array.from({ length: 10 }, (_, j) => queued(threadTs, j + 1)),
+        },
+        progress: null,
+      };
+    });
+
+    const { blocks } = buildHomeView("ko", threads, { active: 2, max: 2, waiting: 18 }, [], true);
+
+    expect(blocks.length).toBeLessThanOrEqual(100);
+    const texts = blocks.map((block) => JSON.stringify(block));
+    expect(texts.some((text) => text.includes("외 7개 대기 중"))).toBe(true);
+    expect(texts.some((text) => /외 \d+개 스레드/.test(text))).toBe(true);
+    expect(texts.at(-2)).toContain("최근 실행");
+    expect(texts.at(-1)).toContain("아직 끝난 실행이 없습니다.");
+  });
+});
@@ -5,7 +5,20 @@
  * 여러 곳에서 비슷한 블록 구조를 만들던 것을 여기로 모았음.
  */
 
+import type { AccessDenial } from "./access-control";
 import { getAppStartCommitHash, getAppVersion } from "./app-info";
+import type { ChannelPolicy } from "./channel-policies";
+import type { RepoChange } from "./git-changes";
+import { getMessages, type Locale } from "./i18n";
+import type { QuotaViolation } from "./quota-manager";
+import type { RevertResult } from "./revert-manager";
+import type { RunRecord, RunStatus } from "./run-history";
+import type { TimelineStep, TimelineStepStatus } from "./run-timeline";
+import type { Session } from "./session-manager";
+import { markdownToMrkdwn } from "./slack-markdown";
+import type { QueuedMessage, ThreadSnapshot } from "./thread-queue";
+import type { TodoItem, TodoStatus } from "./todo-plan";
+import type { TokenUsage, UsageReport, UsageTotals } from "./usage-ledger";
 
 // Slack mrkdwn 텍스트 블록 제한: 3000자. 여유를 두고 2500자로 제한.
 const MAX_TEXT_LENGTH = 2500;
@@ -37,14 +50,65 @@ export function getVersionInfoText(): string {
   return parts.length > 0 ? `, ${parts.join(" ")}` : "";
 }
 
+/**
+ * 권한 정책 문자열을 생성합니다.
+ * 예: ", 권한: 제한 (Read, Grep, Glob)"
+ */
+export function getPermissionInfoText(locale: Locale, policy: ChannelPolicy): string {
+  const m = getMessages(locale).metadata;
+  const tools = policy.allowedTools?.length ? ` (${policy.allowedTools.join(", ")})` : "";
+  return m.permission(m.permissionModes[policy.permissionMode] ?? policy.permissionMode, tools);
+}
+
 /**
  * 경과/소요 시간 문자열을 생성합니다.
- * 예: "2분 15초"
+ * 예: "2분 15초", "2m 15s"
+ */
+export function formatDuration(locale: Locale, seconds: number): string {
+  return getMessages(locale).duration(Math.floor(seconds / 60), seconds % 60);
+}
+
+/**
+ * 도구 호출 한 번의 걸린 시간 문자열을 생성합니다. 10초 미만은 소수점 한 자리까지 표시합니다.
+ * 예: 1234 → "1.2초", 75000 → "1분 15초"
+ */
+export function formatStepDuration(locale: Locale, durationMs: number): string {
+  return durationMs < 10_000
+    ? getMessages(locale).decimalSeconds((durationMs / 1000).toFixed(1))
+    : formatDuration(locale, Math.round(durationMs / 1000));
+}
+
+/**
+ * 토큰 수를 짧게 표시합니다.
+ * 예: 950 → "950", 12345 → "12.3k", 2500000 → "2.5M"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+/**
+ * 비용(USD)을 표시합니다.
+ * 예: 0.0123 → "$0.012"
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 3 : 2)}`;
+}
+
+/**
+ * 토큰 사용량 문자열을 생성합니다.
+ * 입력 토큰에는 캐시에서 읽거나 캐시에 쓴 토큰이 포함됩니다.
+ * 예: ", 토큰 입력 45.2k / 출력 1.3k, $0.123"
  */
-export function formatDuration(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return minutes > 0 ? `${minutes}분 ${secs}초` : `${secs}초`;
+export function getUsageInfoText(locale: Locale, usage: TokenUsage): string {
+  const inputTokens = usage.inputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+  const cost = usage.costUsd !== null ? `, ${formatCost(usage.costUsd)}` : "";
+  return `${getMessages(locale).metadata.usage(formatTokenCount(inputTokens), formatTokenCount(usage.outputTokens))}${cost}`;
 }
 
 /**
@@ -57,9 +121,12 @@ export function truncateForSlack(text: string, maxLength: number = MAX_TEXT_LENG
   return text.slice(0, maxLength) + "...";
 }
 
+const CODE_FENCE = "```";
+
 /**
  * 긴 텍스트를 Slack 메시지 한도에 맞게 분할합니다.
- * 줄바꿈이나 단어 경계에서 자르려고 시도합니다.
+ * 줄바꿈이나 단어 경계에서 자르려고 시도하고, 인라인 코드, 링크, 멘션 안에서는 자르지 않습니다.
+ * 코드 블록 중간에서 잘리면 앞 청크에서 닫고 다음 청크에서 같은 언어 태그로 다시 엽니다.
  */
 export function splitTextForSlack(text: string, maxLength: number = MAX_TEXT_LENGTH): string[] {
   if (text.length <= maxLength) {
@@ -75,46 +142,249 @@ export function splitTextForSlack(text: string, maxLength: number = MAX_TEXT_LEN
       break;
     }
 
-    // 최대 길이 내에서 줄바꿈 찾기
-    let splitIndex = remaining.lastIndexOf("\n", maxLength);
+    // 코드 블록을 닫을 자리를 남겨두고 자를 위치를 찾음
+    const splitIndex = findSplitIndex(remaining, maxLength - CODE_FENCE.length - 1);
+    let chunk = remaining.slice(0, splitIndex).trimEnd();
+    let rest = remaining.slice(splitIndex);
 
-    // 줄바꿈이 없거나 너무 앞에 있으면 공백에서 자르기
-    if (splitIndex < maxLength * 0.5) {
-      splitIndex = remaining.lastIndexOf(" ", maxLength);
+    const openFenceLanguage = getOpenCodeFenceLanguage(chunk);
+    if (openFenceLanguage === null) {
+      rest = rest.trimStart();
+    } else {
+      // 코드 들여쓰기는 지키고 자른 자리의 줄바꿈만 버림
+      chunk += `\n${CODE_FENCE}`;
+      rest = `${CODE_FENCE}${openFenceLanguage}\n${rest.replace(/^\n/, "")}`;
     }
 
-    // 공백도 없으면 그냥 자르기
-    if (splitIndex < maxLength * 0.5) {
-      splitIndex = maxLength;
+    chunks.push(chunk);
+    remaining = rest;
+  }
+
+  return chunks;
+}
+
+/**
+ * 코드 블록을 열거나 닫는 줄인지 확인합니다. (한 줄짜리 ```코드```는 제외)
+ */
+function isCodeFenceLine(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.startsWith(CODE_FENCE) &&
+    !(trimmed.length > CODE_FENCE.length * 2 && trimmed.endsWith(CODE_FENCE))
+  );
+}
+
+/**
+ * 텍스트 끝에서 코드 블록이 열려 있으면 그 언어 태그(없으면 "")를, 닫혀 있으면 null을 반환합니다.
+ */
+function getOpenCodeFenceLanguage(text: string): string | null {
+  let language: string | null = null;
+  for (const line of text.split("\n")) {
+    if (!isCodeFenceLine(line)) {
+      continue;
+    }
+    language = language === null ? (line.trim().match(/^```([\w+#.-]*)$/)?.[1] ?? "") : null;
+  }
+  return language;
+}
+
+/**
+ * 텍스트를 maxLength 안에서 자를 위치를 찾습니다.
+ * 뒤쪽 절반에 있는 줄바꿈, 공백 순으로 찾고, 없으면 maxLength에서 자릅니다.
+ * 인라인 코드나 <링크|멘션> 안에서는 자르지 않습니다.
+ */
+function findSplitIndex(text: string, maxLength: number): number {
+  let lastNewline = -1;
+  let lastSpace = -1;
+  // 아직 닫히지 않은 인라인 코드나 <...>의 시작 위치
+  let tokenStart = -1;
+  let inCodeBlock = false;
+  let fenceLineEnd = -1;
+
+  for (let i = 0; i < maxLength; i++) {
+    const char = text[i];
+
+    if (i === 0 || text[i - 1] === "\n") {
+      tokenStart = -1;
+      const lineEnd = text.indexOf("\n", i);
+      const line = text.slice(i, lineEnd === -1 ? undefined : lineEnd);
+      if (isCodeFenceLine(line)) {
+        inCodeBlock = !inCodeBlock;
+        fenceLineEnd = i + line.length;
+      }
     }
 
-    chunks.push(remaining.slice(0, splitIndex).trimEnd());
-    remaining = remaining.slice(splitIndex).trimStart();
+    if (char === "\n") {
+      // 코드 블록을 여는 줄 바로 뒤나 닫는 줄 바로 앞에서 자르면 빈 코드 블록이 생기므로 피함
+      const nextLineEnd = text.indexOf("\n", i + 1);
+      const nextLine = text.slice(i + 1, nextLineEnd === -1 ? undefined : nextLineEnd);
+      if (!(inCodeBlock && (i === fenceLineEnd || isCodeFenceLine(nextLine)))) {
+        lastNewline = i;
+      }
+      continue;
+    }
+    if (i < fenceLineEnd) {
+      continue;
+    }
+
+    if (inCodeBlock) {
+      if (char === " ") {
+        lastSpace = i;
+      }
+    } else if (tokenStart === -1) {
+      if (char === "`" || (char === "<" && /\S/.test(text[i + 1] ?? " "))) {
+        tokenStart = i;
+      } else if (char === " ") {
+        lastSpace = i;
+      }
+    } else if (char === (text[tokenStart] === "`" ? "`" : ">")) {
+      tokenStart = -1;
+    }
   }
 
-  return chunks;
+  if (lastNewline >= maxLength * 0.5) {
+    return lastNewline;
+  }
+  if (lastSpace >= maxLength * 0.5) {
+    return lastSpace;
+  }
+  // 인라인 코드나 링크 도중이면 그 앞에서 자름
+  return tokenStart > 0 ? tokenStart : maxLength;
+}
+
+/** 스레드에 파일로 올릴 결과 */
+export interface ResultFile {
+  filename: string;
+  title: string;
+  content: string;
+}
+
+// 코드 블록 언어 태그 → 파일 확장자 (슬랙이 확장자로 filetype을 정함)
+const CODE_FILE_EXTENSIONS: Record<string, string> = {
+  typescript: "ts",
+  ts: "ts",
+  tsx: "tsx",
+  javascript: "js",
+  js: "js",
+  jsx: "jsx",
+  json: "json",
+  python: "py",
+  py: "py",
+  bash: "sh",
+  sh: "sh",
+  shell: "sh",
+  zsh: "sh",
+  yaml: "yaml",
+  yml: "yaml",
+  diff: "diff",
+  patch: "diff",
+  sql: "sql",
+  go: "go",
+  rust: "rs",
+  java: "java",
+  kotlin: "kt",
+  swift: "swift",
+  html: "html",
+  css: "css",
+  markdown: "md",
+  md: "md",
+};
+
+/**
+ * 결과 텍스트에서 긴 코드 블록을 떼어내 파일로 만듭니다.
+ * 본문의 코드 블록 자리에는 어떤 파일로 첨부했는지 안내 문구를 남깁니다.
+ *
+ * @param locale 안내 문구 언어
+ * @param text 결과 텍스트
+ * @param minLength 이 길이 이상인 코드 블록만 떼어냄
+ */
+export function extractLargeCodeBlocks(
+  locale: Locale,
+  text: string,
+  minLength: number,
+): { text: string; files: ResultFile[] } {
+  const files: ResultFile[] = [];
+
+  const replaced = text.replace(
+    /```([\w+-]*)\n([\s\S]*?)```/g,
+    (block, language: string, code: string) => {
+      if (code.length < minLength) {
+        return block;
+      }
+
+      const extension = CODE_FILE_EXTENSIONS[language.toLowerCase()] ?? "txt";
+      const filename = `snippet-${files.length + 1}.${extension}`;
+      files.push({ filename, title: filename, content: code });
+      return getMessages(locale).run.codeBlockAttached(filename);
+    },
+  );
+
+  return { text: replaced, files };
+}
+
+/**
+ * 긴 결과의 앞부분만 요약으로 잘라냅니다.
+ * 문단 경계에서 자르고, 잘린 코드 블록이 있으면 닫아줍니다.
+ */
+export function summarizeForSlack(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  let cutIndex = text.lastIndexOf("\n\n", maxLength);
+  if (cutIndex < maxLength * 0.5) {
+    cutIndex = text.lastIndexOf("\n", maxLength);
+  }
+  if (cutIndex < maxLength * 0.5) {
+    cutIndex = maxLength;
+  }
+
+  let summary = text.slice(0, cutIndex).trimEnd();
+  if ((summary.match(/```/g) ?? []).length % 2 === 1) {
+    summary += "\n```";
+  }
+  return `${summary}\n…`;
 }
 
 // ============================================================================
 // 블록 빌더들
 // ============================================================================
 
-type SlackBlock = Record<string, unknown>;
+// type이 있어야 Slack 클라이언트의 blocks 인자(KnownBlock | Block)에 그대로 넘길 수 있음
+type SlackBlock = { type: string; [key: string]: unknown };
+
+/** 메타데이터 context 블록의 block_id (진행 중 시간 갱신 때 이 블록만 바꿔 끼움) */
+export const METADATA_BLOCK_ID = "metadata";
+
+/** 메타데이터 context 블록에 표시할 정보 */
+export interface MessageMetadata {
+  /** running이면 경과 시간, finished면 소요 시간으로 표시 */
+  phase: "running" | "finished";
+  elapsedSeconds: number;
+  toolCallCount: number;
+  usage?: TokenUsage | null;
+  /** 적용 중인 채널 권한 정책 (처음 메시지에만 표시) */
+  policy?: ChannelPolicy;
+}
 
 /**
  * 메타데이터 context 블록을 생성합니다.
  * 예: "_2분 15초 경과, 도구 5회 호출, v2.1.0 (6575b2f)_"
  */
-export function buildMetadataBlock(
-  timeStr: string,
-  toolCallCount: number,
-  status: "경과" | "소요",
-): SlackBlock {
-  const versionInfo = getVersionInfoText();
-  const text = `_${timeStr} ${status}, 도구 ${toolCallCount}회 호출${versionInfo}_`;
+export function buildMetadataBlock(locale: Locale, metadata: MessageMetadata): SlackBlock {
+  const m = getMessages(locale).metadata;
+  const duration = formatDuration(locale, metadata.elapsedSeconds);
+  const summary =
+    metadata.phase === "running"
+      ? m.running(duration, metadata.toolCallCount)
+      : m.finished(duration, metadata.toolCallCount);
+  const usageInfo = metadata.usage ? getUsageInfoText(locale, metadata.usage) : "";
+  const permissionInfo = metadata.policy ? getPermissionInfoText(locale, metadata.policy) : "";
+  const text = `_${summary}${usageInfo}${permissionInfo}${getVersionInfoText()}_`;
 
   return {
     type: "context",
+    block_id: METADATA_BLOCK_ID,
     elements: [{ type: "mrkdwn", text }],
   };
 }
@@ -129,16 +399,155 @@ export function buildTextBlock(text: string): SlackBlock {
   };
 }
 
+// 저장소마다 보여줄 최대 파일/커밋 수
+const MAX_GIT_ITEMS = 10;
+
+/**
+ * 실행 동안의 git 변경 사항 section 블록을 생성합니다.
+ */
+export function buildGitChangesBlock(locale: Locale, changes: RepoChange[]): SlackBlock {
+  const m = getMessages(locale).git;
+  const lines: string[] = [m.title];
+
+  for (const repo of changes) {
+    const summary = repo.isNewRepo
+      ? m.cloned
+      : m.summary(repo.files.length, repo.insertions, repo.deletions);
+    lines.push(`*${repo.name}* — ${summary}`);
+
+    for (const file of repo.files.slice(0, MAX_GIT_ITEMS)) {
+      const stat = file.isNew ? m.newFile : `+${file.insertions} −${file.deletions}`;
+      lines.push(`• \`${file.path}\` ${stat}`);
+    }
+    if (repo.files.length > MAX_GIT_ITEMS) {
+      lines.push(`• ${m.moreFiles(repo.files.length - MAX_GIT_ITEMS)}`);
+    }
+
+    for (const commit of repo.commits.slice(0, MAX_GIT_ITEMS)) {
+      lines.push(`🔖 \`${commit.hash.substring(0, 7)}\` ${commit.subject} — ${commit.author}`);
+    }
+    if (repo.commits.length > MAX_GIT_ITEMS) {
+      lines.push(`🔖 ${m.moreCommits(repo.commits.length - MAX_GIT_ITEMS)}`);
+    }
+  }
+
+  return buildTextBlock(truncateForSlack(lines.join("\n")));
+}
+
+// 진행 메시지에 보여줄 최근 단계 수
+const PROGRESS_TIMELINE_STEPS = 5;
+
+const TIMELINE_STEP_ICONS: Record<TimelineStepStatus, string> = {
+  running: "⏳",
+  succeeded: "✅",
+  failed: "❌",
+};
+
+/**
+ * 타임라인 한 단계를 한 줄로 표시합니다.
+ * 예: "✅ *Bash* `pnpm test` _(12초)_"
+ */
+export function formatTimelineStep(locale: Locale, step: TimelineStep): string {
+  // 입력은 한 줄 코드로 보여주므로 백틱과 줄바꿈을 정리
+  const input = step.input
+    ? ` \`${truncateForSlack(step.input.replace(/`/g, "'").replace(/\s+/g, " "), 80)}\``
+    : "";
+  const duration =
+    step.durationMs !== null ? ` _(${formatStepDuration(locale, step.durationMs)})_` : "";
+  return `${TIMELINE_STEP_ICONS[step.status]} *${step.name}*${input}${duration}`;
+}
+
+/**
+ * 진행 메시지에 넣을 최근 단계 목록을 생성합니다. 앞선 단계는 개수만 표시합니다.
+ */
+function formatRecentTimeline(locale: Locale, steps: TimelineStep[]): string {
+  const recent = steps.slice(-PROGRESS_TIMELINE_STEPS);
+  const hiddenCount = steps.length - recent.length;
+  const lines = recent.map((step) => formatTimelineStep(locale, step));
+  if (hiddenCount > 0) {
+    lines.unshift(getMessages(locale).timeline.hiddenSteps(hiddenCount));
+  }
+  return lines.join("\n");
+}
+
+// 체크리스트에 보여줄 최대 할 일 수
+const MAX_PLAN_ITEMS = 20;
+
+const TODO_STATUS_ICONS: Record<TodoStatus, string> = {
+  pending: "⬜",
+  in_progress: "🔄",
+  completed: "✅",
+};
+
+/**
+ * Claude의 작업 계획(TodoWrite) 체크리스트 section 블록을 생성합니다.
+ * 진행 중인 할 일은 굵게, 완료한 할 일은 취소선으로 표시합니다.
+ */
+export function buildPlanBlock(locale: Locale, plan: TodoItem[]): SlackBlock {
+  const m = getMessages(locale).plan;
+  const completedCount = plan.filter((todo) => todo.status === "completed").length;
+  const lines = [m.title(completedCount, plan.length)];
+
+  for (const todo of plan.slice(0, MAX_PLAN_ITEMS)) {
+    const content = truncateForSlack(todo.content.replace(/\s+/g, " "), 150);
+    const label =
+      todo.status === "in_progress"
+        ? `*${todo.activeForm ? truncateForSlack(todo.activeForm.replace(/\s+/g, " "), 150) : content}*`
+        : todo.status === "completed"
+          ? `~${content}~`
+          : content;
+    lines.push(`${TODO_STATUS_ICONS[todo.status]} ${label}`);
+  }
+  if (plan.length > MAX_PLAN_ITEMS) {
+    lines.push(m.moreItems(plan.length - MAX_PLAN_ITEMS));
+  }
+
+  return buildTextBlock(truncateForSlack(lines.join("\n")));
+}
+
+/**
+ * "작업 내역" 버튼을 생성합니다.
+ */
+function buildTimelineButton(locale: Locale, threadTs: string, messageId: string): SlackBlock {
+  return {
+    type: "button",
+    text: { type: "plain_text", text: getMessages(locale).timeline.button, emoji: true },
+    action_id: "show_timeline",
+    value: JSON.stringify({ threadTs, messageId }),
+  };
+}
+
+/**
+ * "되돌리기" 버튼을 생성합니다.
+ * 저장소를 reset 하는 위험한 동작이라 확인 창을 띄웁니다.
+ */
+function buildRevertButton(locale: Locale, threadTs: string, revertPointId: string): SlackBlock {
+  const m = getMessages(locale).revert;
+  return {
+    type: "button",
+    text: { type: "plain_text", text: m.button, emoji: true },
+    action_id: "revert_run",
+    value: JSON.stringify({ threadTs, revertPointId }),
+    confirm: {
+      title: { type: "plain_text", text: m.confirmTitle },
+      text: { type: "mrkdwn", text: m.confirmText },
+      confirm: { type: "plain_text", text: m.confirm },
+      deny: { type: "plain_text", text: m.deny },
+      style: "danger",
+    },
+  };
+}
+
 /**
  * "멈춰!" 버튼 actions 블록을 생성합니다.
  */
-export function buildStopButtonBlock(threadTs: string): SlackBlock {
+export function buildStopButtonBlock(locale: Locale, threadTs: string): SlackBlock {
   return {
     type: "actions",
     elements: [
       {
         type: "button",
-        text: { type: "plain_text", text: "🛑 멈춰!", emoji: true },
+        text: { type: "plain_text", text: getMessages(locale).stopButton, emoji: true },
         action_id: "stop_claude",
         value: threadTs,
       },
@@ -150,90 +559,139 @@ export function buildStopButtonBlock(threadTs: string): SlackBlock {
 // 전체 메시지 빌더들
 // ============================================================================
 
-interface MessageBlocks {
+export interface MessageBlocks {
   blocks: SlackBlock[];
   fallbackText: string;
+  /** 메타데이터 블록을 만든 정보 (진행 중 시간 갱신에 사용, 메타데이터 블록이 없으면 없음) */
+  metadata?: MessageMetadata;
 }
 
 /**
  * 초기 "생각하는 중..." 메시지를 생성합니다.
+ * 정책이 주어지면 적용 중인 권한 모드를 context 블록에 함께 표시합니다.
  */
-export function buildThinkingMessage(userId: string, threadTs: string): MessageBlocks {
+export function buildThinkingMessage(
+  locale: Locale,
+  userId: string,
+  threadTs: string,
+  policy?: ChannelPolicy,
+): MessageBlocks {
   const userMention = getUserMention(userId);
-  const versionInfo = getVersionInfoText();
+  const text = `${userMention} ${getMessages(locale).run.thinking}`.trim();
+  const metadata: MessageMetadata = {
+    phase: "running",
+    elapsedSeconds: 0,
+    toolCallCount: 0,
+    policy,
+  };
 
   const blocks = [
-    {
-      type: "context",
-      elements: [{ type: "mrkdwn", text: `_0초 경과, 도구 0회 호출${versionInfo}_` }],
-    },
-    buildTextBlock(`${userMention} 🤔 생각하는 중...`.trim()),
-    buildStopButtonBlock(threadTs),
+    buildMetadataBlock(locale, metadata),
+    buildTextBlock(text),
+    buildStopButtonBlock(locale, threadTs),
   ];
 
-  return {
-    blocks,
-    fallbackText: `${userMention} 🤔 생각하는 중...`.trim(),
-  };
+  return { blocks, fallbackText: text, metadata };
 }
 
 /**
  * 진행 중 "작업 중..." 메시지를 생성합니다.
+ * 최근 도구 호출 몇 단계와, 있으면 작업 계획 체크리스트와 승인 결과 같은 알림(note)을 함께 표시합니다.
  */
 export function buildProgressMessage(
+  locale: Locale,
   userId: string,
   threadTs: string,
   text: string,
-  toolInfo: string | undefined,
+  steps: TimelineStep[],
   elapsedSeconds: number,
   toolCallCount: number,
+  plan: TodoItem[] = [],
+  note?: string,
+  approvals: ApprovalRequest[] = [],
 ): MessageBlocks {
+  const m = getMessages(locale).run;
   const userMention = getUserMention(userId);
-  const timeStr = formatDuration(elapsedSeconds);
+  const metadata: MessageMetadata = { phase: "running", elapsedSeconds, toolCallCount };
 
   // 메시지 텍스트 구성
-  const toolInfoText = toolInfo ? `${toolInfo}\n\n` : "";
-  const userTag = userMention ? `${userMention} ⏳ 작업 중...` : "⏳ 작업 중...";
-  const overhead = userTag.length + toolInfoText.length + 10;
+  const noteText = note ? `${note}\n\n` : "";
+  const timelineText = steps.length > 0 ? `${formatRecentTimeline(locale, steps)}\n\n` : "";
+  const userTag = `${userMention} ${m.working}`.trim();
+  const overhead = userTag.length + noteText.length + timelineText.length + 10;
   const maxTextLength = MAX_TEXT_LENGTH - overhead;
-  const truncatedText = truncateForSlack(text, maxTextLength);
-  const messageText = `${userTag}\n\n${toolInfoText}> ${truncatedText}`;
+  const truncatedText = truncateForSlack(markdownToMrkdwn(text), maxTextLength);
+  const messageText = `${userTag}\n\n${noteText}${timelineText}> ${truncatedText}`;
 
   const blocks = [
-    buildMetadataBlock(timeStr, toolCallCount, "경과"),
+    buildMetadataBlock(locale, metadata),
+    ...(plan.length > 0 ? [buildPlanBlock(locale, plan)] : []),
     buildTextBlock(messageText),
-    buildStopButtonBlock(threadTs),
+    ...approvals.flatMap((approval) => buildApprovalBlocks(locale, threadTs, approval)),
+    buildStopButtonBlock(locale, threadTs),
   ];
 
+  // 승인을 기다리는 동안에는 알림에도 승인 요청을 보여줌
+  const fallbackText =
+    approvals.length > 0
+      ? getMessages(locale).approval.fallback(approvals[0].command.slice(0, 100))
+      : m.workingFallback;
+
   return {
     blocks,
-    fallbackText: userMention ? `${userMention} 작업 중...` : "작업 중...",
+    fallbackText: `${userMention} ${fallbackText}`.trim(),
+    metadata,
   };
 }
 
 /**
  * 완료된 결과 메시지를 생성합니다.
- * 텍스트가 길면 여러 청크로 분할합니다.
+ * 응답의 Markdown은 Slack mrkdwn으로 바꾸고, 텍스트가 길면 여러 청크로 분할합니다.
  */
 export function buildResultMessage(
+  locale: Locale,
   userId: string,
   text: string,
   durationSeconds: number,
   toolCallCount: number,
+  usage?: TokenUsage | null,
+  gitChanges: RepoChange[] = [],
+  revertPointId: string | null = null,
+  threadTs?: string,
+  timelineMessageId: string | null = null,
+  plan: TodoItem[] = [],
 ): { firstMessage: MessageBlocks; additionalChunks: string[] } {
   const userMention = getUserMention(userId);
-  const timeStr = formatDuration(durationSeconds);
 
-  // 텍스트를 청크로 분할
+  // Markdown을 mrkdwn으로 바꾼 뒤 청크로 분할
   const overhead = userMention.length + 10;
   const maxChunkLength = MAX_TEXT_LENGTH - overhead;
-  const chunks = splitTextForSlack(text, maxChunkLength);
+  const chunks = splitTextForSlack(markdownToMrkdwn(text), maxChunkLength);
 
   // 첫 번째 청크 메시지
   const firstChunkText = userMention ? `${userMention}\n\n${chunks[0]}` : chunks[0];
+  const buttons = threadTs
+    ? [
+        ...(timelineMessageId ? [buildTimelineButton(locale, threadTs, timelineMessageId)] : []),
+        ...(revertPointId ? [buildRevertButton(locale, threadTs, revertPointId)] : []),
+      ]
+    : [];
 
   const firstMessage: MessageBlocks = {
-    blocks: [buildMetadataBlock(timeStr, toolCallCount, "소요"), buildTextBlock(firstChunkText)],
+    blocks: [
+      buildMetadataBlock(locale, {
+        phase: "finished",
+        elapsedSeconds: durationSeconds,
+        toolCallCount,
+        usage,
+      }),
+      buildTextBlock(firstChunkText),
+      ...(plan.length > 0 ? [buildPlanBlock(locale, plan)] : []),
+      ...(gitChanges.length > 0
+        ? [{ type: "divider" }, buildGitChangesBlock(locale, gitChanges)]
+        : []),
+      ...(buttons.length > 0 ? [{ type: "actions", elements: buttons }] : []),
+    ],
     fallbackText: userMention
       ? `${userMention} ${text.slice(0, 100)}...`
       : `${text.slice(0, 100)}...`,
@@ -248,90 +706,334 @@ export function buildResultMessage(
 /**
  * 에러 메시지를 생성합니다.
  */
-export function buildErrorMessage(userId: string, errorMessage: string): MessageBlocks {
+export function buildErrorMessage(
+  locale: Locale,
+  userId: string,
+  errorMessage: string,
+): MessageBlocks {
+  const m = getMessages(locale).run;
   const userMention = getUserMention(userId);
   const truncatedError = errorMessage.slice(0, 500);
 
-  const text = userMention
-    ? `${userMention} ❌ 오류가 발생했습니다:\n\`\`\`${truncatedError}\`\`\``
-    : `❌ 오류가 발생했습니다:\n\`\`\`${truncatedError}\`\`\``;
+  const title = `${userMention} ${m.error}`.trim();
+  const text = `${title}\n\`\`\`${truncatedError}\`\`\``;
 
   return {
     blocks: [buildTextBlock(text)],
-    fallbackText: userMention ? `${userMention} 오류가 발생했습니다.` : "오류가 발생했습니다.",
+    fallbackText: `${userMention} ${m.errorFallback}`.trim(),
   };
 }
 
 /**
  * 중단 메시지를 생성합니다.
  */
-export function buildAbortedMessage(userId: string): MessageBlocks {
-  const userMention = getUserMention(userId);
-  const text = `${userMention} ⏹️ 작업이 중단되었습니다.`.trim();
+export function buildAbortedMessage(locale: Locale, userId: string): MessageBlocks {
+  const m = getMessages(locale).run;
+  const text = `${getUserMention(userId)} ${m.aborted}`.trim();
 
   return {
     blocks: [buildTextBlock(text)],
-    fallbackText: "작업이 중단되었습니다.",
+    fallbackText: m.abortedFallback,
   };
 }
 
-// ============================================================================
-// 큐잉 관련 메시지 빌더들
-// ============================================================================
+/**
+ * 사용량 한도 초과 메시지를 생성합니다.
+ *
+ * 새 요청을 거절할 때와, 실행 도중 도구 호출 한도를 넘어 중단할 때 사용합니다.
+ */
+export function buildQuotaExceededMessage(
+  locale: Locale,
+  userId: string,
+  violation: QuotaViolation,
+): MessageBlocks {
+  const m = getMessages(locale).quota;
+  const owner = m.owners[violation.scope];
+  const limitLabel = m.limits[violation.kind](violation.limit);
+  const notice =
+    violation.kind === "toolCallsPerRun"
+      ? m.stopped(owner, limitLabel)
+      : m.rejected(owner, limitLabel);
+
+  const blocks: SlackBlock[] = [buildTextBlock(`${getUserMention(userId)} ${notice}`.trim())];
+  if (violation.resetAt) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: m.resetAt(formatSlackDate(violation.resetAt)) }],
+    });
+  }
+
+  return {
+    blocks,
+    fallbackText: m.fallback(limitLabel),
+  };
+}
 
 /**
- * "큐잉됨" 메시지를 생성합니다.
- * 즉시처리/취소 버튼을 포함합니다.
+ * 접근 거부 메시지를 생성합니다. (ephemeral로 본인에게만 보냄)
  */
-export function buildQueuedMessage(
+export function buildAccessDeniedMessage(locale: Locale, denial: AccessDenial): MessageBlocks {
+  const m = getMessages(locale).access;
+
+  return {
+    blocks: [buildTextBlock(denial.reason === "user" ? m.user : m.channel)],
+    fallbackText: m.fallback,
+  };
+}
+
+/**
+ * revert 커밋 "푸시" 버튼 actions 블록을 생성합니다. (누르기 전에 한 번 더 확인)
+ */
+function buildRevertPushBlock(locale: Locale, threadTs: string, revertPointId: string): SlackBlock {
+  const m = getMessages(locale).revert;
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: m.pushButton, emoji: true },
+        action_id: "push_revert",
+        value: JSON.stringify({ threadTs, revertPointId }),
+        confirm: {
+          title: { type: "plain_text", text: m.pushConfirmTitle },
+          text: { type: "mrkdwn", text: m.pushConfirmText },
+          confirm: { type: "plain_text", text: m.pushConfirm },
+          deny: { type: "plain_text", text: m.deny },
+          style: "danger",
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * 저장소별 결과 목록을 한 줄씩 만듭니다.
+ */
+function formatRevertResults(results: RevertResult[]): string {
+  return results
+    .map((result) => `${result.ok ? "✅" : "❌"} *${result.name}*: ${result.detail}`)
+    .join("\n");
+}
+
+/**
+ * 되돌리기 결과 메시지를 생성합니다.
+ * 푸시할 revert 커밋이 있으면 푸시 버튼을 붙입니다.
+ */
+export function buildRevertResultMessage(
+  locale: Locale,
   userId: string,
+  results: RevertResult[],
   threadTs: string,
-  messageId: string,
-  queuePosition: number,
+  revertPointId: string,
 ): MessageBlocks {
-  const userMention = getUserMention(userId);
-  const positionText = queuePosition === 1 ? "다음 순서입니다" : `${queuePosition}번째 순서입니다`;
-  const text =
-    `${userMention} 📋 현재 다른 작업을 처리 중이에요. ${positionText}.\n바로 처리하고 싶으면 "즉시 처리" 버튼을 눌러주세요.`.trim();
+  const m = getMessages(locale).revert;
+  const allOk = results.every((result) => result.ok);
+  const title = allOk ? m.done(getUserMention(userId)) : m.partiallyFailed(getUserMention(userId));
+  const blocks = [buildTextBlock(truncateForSlack(`${title}\n${formatRevertResults(results)}`))];
 
-  const blocks = [
-    buildTextBlock(text),
+  if (allOk && results.some((result) => result.pushPending)) {
+    blocks.push(
+      buildTextBlock(m.pushPending),
+      buildRevertPushBlock(locale, threadTs, revertPointId),
+    );
+  }
+
+  return { blocks, fallbackText: allOk ? m.doneFallback : m.partiallyFailedFallback };
+}
+
+/**
+ * revert 커밋 푸시 결과 메시지를 생성합니다. 실패한 저장소가 있으면 다시 누를 수 있게 버튼을 붙입니다.
+ */
+export function buildRevertPushResultMessage(
+  locale: Locale,
+  userId: string,
+  results: RevertResult[],
+  threadTs: string,
+  revertPointId: string,
+): MessageBlocks {
+  const m = getMessages(locale).revert;
+  const allOk = results.every((result) => result.ok);
+  const title = allOk ? m.pushed(getUserMention(userId)) : m.pushFailed(getUserMention(userId));
+  const blocks = [buildTextBlock(truncateForSlack(`${title}\n${formatRevertResults(results)}`))];
+
+  if (!allOk) {
+    blocks.push(buildRevertPushBlock(locale, threadTs, revertPointId));
+  }
+
+  return { blocks, fallbackText: allOk ? m.pushedFallback : m.pushFailedFallback };
+}
+
+// ============================================================================
+// 도구 승인 관련 메시지 빌더들
+// ============================================================================
+
+/** 진행 메시지에 띄워 둔 승인 요청 (응답이 오거나 시간이 지날 때까지 계속 표시) */
+export interface ApprovalRequest {
+  approvalId: string;
+  command: string;
+  timeoutSeconds: number;
+}
+
+/**
+ * 위험한 명령의 승인 요청 블록(설명과 승인/거부 버튼)을 생성합니다.
+ */
+function buildApprovalBlocks(
+  locale: Locale,
+  threadTs: string,
+  approval: ApprovalRequest,
+): SlackBlock[] {
+  const m = getMessages(locale).approval;
+  const request = m.request(
+    truncateForSlack(approval.command, 1500),
+    formatDuration(locale, approval.timeoutSeconds),
+  );
+  const value = JSON.stringify({ threadTs, approvalId: approval.approvalId });
+
+  return [
+    buildTextBlock(request),
     {
       type: "actions",
       elements: [
         {
           type: "button",
-          text: { type: "plain_text", text: "⚡ 즉시 처리", emoji: true },
-          action_id: "process_now",
-          value: JSON.stringify({ threadTs, messageId }),
+          text: { type: "plain_text", text: m.approveButton, emoji: true },
+          action_id: "approve_tool",
+          value,
           style: "primary",
         },
         {
           type: "button",
-          text: { type: "plain_text", text: "❌ 취소", emoji: true },
-          action_id: "cancel_queued",
-          value: JSON.stringify({ threadTs, messageId }),
+          text: { type: "plain_text", text: m.denyButton, emoji: true },
+          action_id: "deny_tool",
+          value,
+          style: "danger",
         },
       ],
     },
   ];
+}
+
+/**
+ * 승인 결과를 진행 메시지의 알림 자리에 표시할 문자열로 만듭니다.
+ */
+export function formatApprovalDecision(
+  locale: Locale,
+  command: string,
+  approved: boolean,
+  userId: string | null,
+  reason: string,
+): string {
+  const m = getMessages(locale).approval;
+  const commandText = `\`${truncateForSlack(command, 500)}\``;
+  if (!userId) {
+    return `${m.autoDenied}\n${commandText}\n${reason}`;
+  }
+  const title = approved
+    ? m.approvedBy(getUserMention(userId))
+    : m.deniedBy(getUserMention(userId));
+  return `${title}\n${commandText}`;
+}
+
+// ============================================================================
+// 큐잉 관련 메시지 빌더들
+// ============================================================================
+
+/**
+ * "큐잉됨" 메시지를 생성합니다.
+ * 즉시처리/취소 버튼을 포함합니다.
+ *
+ * globalPosition이 있으면 전역 동시 실행 한도 때문에 대기 중인 것으로,
+ * 스레드 간 대기열에서의 순서를 함께 보여줍니다.
+ */
+export function buildQueuedMessage(
+  locale: Locale,
+  userId: string,
+  threadTs: string,
+  messageId: string,
+  queuePosition: number,
+  globalPosition?: number,
+): MessageBlocks {
+  const m = getMessages(locale).queue;
+  const userMention = getUserMention(userId);
+  const positionText = m.position(queuePosition);
+  const notice = globalPosition
+    ? m.waitingGlobal(globalPosition, queuePosition > 1 ? positionText : null)
+    : m.waiting(positionText);
+
+  const blocks = [
+    buildTextBlock(`${userMention} ${notice}`.trim()),
+    buildQueueActionsBlock(locale, threadTs, messageId),
+  ];
 
   return {
     blocks,
-    fallbackText: `${userMention} 큐잉됨 (${positionText})`.trim(),
+    fallbackText:
+      `${userMention} ${globalPosition ? m.globalFallback(globalPosition) : m.fallback(positionText)}`.trim(),
   };
 }
 
 /**
- * "취소됨" 메시지를 생성합니다.
+ * 큐잉 메시지의 "즉시 처리"/"취소" 버튼 actions 블록을 생성합니다.
  */
-export function buildCancelledMessage(userId: string): MessageBlocks {
+export function buildQueueActionsBlock(
+  locale: Locale,
+  threadTs: string,
+  messageId: string,
+): SlackBlock {
+  const messages = getMessages(locale);
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: messages.queue.processNowButton, emoji: true },
+        action_id: "process_now",
+        value: JSON.stringify({ threadTs, messageId }),
+        style: "primary",
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: messages.cancelButton, emoji: true },
+        action_id: "cancel_queued",
+        value: JSON.stringify({ threadTs, messageId }),
+      },
+    ],
+  };
+}
+
+/**
+ * 재시작 후 "이어서 처리" 메시지를 생성합니다.
+ * 재시작 전에 처리 중이었거나 대기 중이던 메시지를 업데이트할 때 사용합니다.
+ */
+export function buildResumingMessage(
+  locale: Locale,
+  userId: string,
+  threadTs: string,
+  messageId: string,
+  queuePosition: number,
+): MessageBlocks {
+  const m = getMessages(locale).queue;
   const userMention = getUserMention(userId);
-  const text = `${userMention} 🚫 요청이 취소되었습니다.`.trim();
+  const positionText = m.resumePosition(queuePosition);
 
   return {
-    blocks: [buildTextBlock(text)],
-    fallbackText: "요청이 취소되었습니다.",
+    blocks: [
+      buildTextBlock(`${userMention} ${m.resuming(positionText)}`.trim()),
+      buildQueueActionsBlock(locale, threadTs, messageId),
+    ],
+    fallbackText: `${userMention} ${m.resumingFallback(positionText)}`.trim(),
+  };
+}
+
+/**
+ * "취소됨" 메시지를 생성합니다.
+ */
+export function buildCancelledMessage(locale: Locale, userId: string): MessageBlocks {
+  const m = getMessages(locale).queue;
+
+  return {
+    blocks: [buildTextBlock(`${getUserMention(userId)} ${m.cancelled}`.trim())],
+    fallbackText: m.cancelledFallback,
   };
 }
 
@@ -339,21 +1041,474 @@ export function buildCancelledMessage(userId: string): MessageBlocks {
  * 큐에서 처리 시작 메시지를 생성합니다.
  * (큐잉 메시지를 업데이트할 때 사용)
  */
-export function buildProcessingFromQueueMessage(userId: string, threadTs: string): MessageBlocks {
-  const userMention = getUserMention(userId);
-  const versionInfo = getVersionInfoText();
+export function buildProcessingFromQueueMessage(
+  locale: Locale,
+  userId: string,
+  threadTs: string,
+): MessageBlocks {
+  return buildThinkingMessage(locale, userId, threadTs);
+}
 
-  const blocks = [
-    {
-      type: "context",
-      elements: [{ type: "mrkdwn", text: `_0초 경과, 도구 0회 호출${versionInfo}_` }],
-    },
-    buildTextBlock(`${userMention} 🤔 생각하는 중...`.trim()),
-    buildStopButtonBlock(threadTs),
+// ============================================================================
+// /vibe 슬래시 커맨드 메시지 빌더들
+// ============================================================================
+
+// 한 번에 보여줄 스레드/세션 최대 개수 (Block Kit 블록 수 제한 50개)
+const MAX_LISTED_ITEMS = 20;
+
+/**
+ * 슬랙 날짜 포맷 문자열을 생성합니다. (보는 사람의 시간대로 표시됨)
+ */
+function formatSlackDate(date: Date): string {
+  const unix = Math.floor(date.getTime() / 1000);
+  return `<!date^${unix}^{date_short_pretty} {time}|${date.toISOString()}>`;
+}
+
+/**
+ * 요청 내용을 한 줄 미리보기로 만듭니다.
+ */
+function previewQuery(query: string, maxLength: number = 80): string {
+  const oneLine = query.replace(/\s+/g, " ").trim();
+  return oneLine.length > maxLength ? `${oneLine.slice(0, maxLength)}…` : oneLine;
+}
+
+/**
+ * 큐 메시지 한 줄 설명을 생성합니다.
+ */
+function describeQueuedMessage(message: Pick<QueuedMessage, "userId" | "userQuery">): string {
+  return `${getUserMention(message.userId)} ${previewQuery(message.userQuery)}`.trim();
+}
+
+/**
+ * 스레드 하나의 상태 텍스트를 생성합니다.
+ */
+function describeThread(locale: Locale, snapshot: ThreadSnapshot): string {
+  const m = getMessages(locale).threads;
+  const lines: string[] = [];
+  const channel = snapshot.currentMessage?.channel ?? snapshot.queue[0]?.channel;
+  lines.push(`${m.thread(snapshot.threadTs)}${channel ? ` <#${channel}>` : ""}`);
+
+  if (snapshot.isProcessing) {
+    lines.push(
+      snapshot.currentMessage
+        ? m.processingQuery(describeQueuedMessage(snapshot.currentMessage))
+        : m.processing,
+    );
+  }
+  for (const [index, message] of snapshot.queue.entries()) {
+    lines.push(m.queued(index + 1, describeQueuedMessage(message)));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * /vibe 사용법 메시지를 생성합니다.
+ */
+export function buildVibeHelpMessage(locale: Locale): MessageBlocks {
+  const m = getMessages(locale).vibe;
+  return { blocks: [buildTextBlock(m.help)], fallbackText: m.helpFallback };
+}
+
+/**
+ * /vibe status 메시지를 생성합니다.
+ */
+export function buildVibeStatusMessage(
+  locale: Locale,
+  snapshots: ThreadSnapshot[],
+  pool: { active: number; max: number; waiting: number },
+  sessionCount: number,
+): MessageBlocks {
+  const { vibe: m, threads } = getMessages(locale);
+  const summary = `_${m.statusSummary(pool.active, pool.max, pool.waiting, sessionCount)}${getVersionInfoText()}_`;
+
+  const blocks: SlackBlock[] = [
+    buildTextBlock(m.statusTitle),
+    { type: "context", elements: [{ type: "mrkdwn", text: summary }] },
   ];
 
+  if (snapshots.length === 0) {
+    blocks.push(buildTextBlock(threads.noActiveThreads));
+  }
+  for (const snapshot of snapshots.slice(0, MAX_LISTED_ITEMS)) {
+    blocks.push(
+      { type: "divider" },
+      buildTextBlock(truncateForSlack(describeThread(locale, snapshot))),
+    );
+  }
+  if (snapshots.length > MAX_LISTED_ITEMS) {
+    blocks.push(buildTextBlock(threads.moreThreads(snapshots.length - MAX_LISTED_ITEMS)));
+  }
+
+  return { blocks, fallbackText: m.statusFallback(snapshots.length) };
+}
+
+/**
+ * /vibe status <스레드> 메시지를 생성합니다.
+ */
+export function buildVibeThreadMessage(
+  locale: Locale,
+  threadTs: string,
+  snapshot: ThreadSnapshot | null,
+  session: Session | null,
+): MessageBlocks {
+  const { vibe: m, threads } = getMessages(locale);
+  const lines: string[] = [];
+
+  if (snapshot && (snapshot.isProcessing || snapshot.queue.length > 0)) {
+    lines.push(describeThread(locale, snapshot));
+  } else {
+    lines.push(threads.thread(threadTs), m.threadIdle);
+  }
+
+  if (session) {
+    lines.push(
+      session.claudeSessionId ? m.claudeSession(session.claudeSessionId) : m.noClaudeSession,
+      m.lastActivity(formatSlackDate(session.lastActivity)),
+    );
+    if (session.workspacePath) {
+      lines.push(m.workspace(session.workspacePath));
+    }
+  } else {
+    lines.push(m.noSavedSession);
+  }
+
+  return {
+    blocks: [buildTextBlock(truncateForSlack(lines.join("\n")))],
+    fallbackText: m.threadFallback(threadTs),
+  };
+}
+
+/**
+ * /vibe sessions 메시지를 생성합니다.
+ */
+export function buildVibeSessionsMessage(
+  locale: Locale,
+  sessions: Array<{ threadTs: string; session: Session }>,
+): MessageBlocks {
+  const m = getMessages(locale).vibe;
+  const blocks: SlackBlock[] = [buildTextBlock(m.sessionsTitle(sessions.length))];
+
+  if (sessions.length > 0) {
+    const lines = sessions.slice(0, MAX_LISTED_ITEMS).map(({ threadTs, session }) => {
+      const sessionId = session.claudeSessionId
+        ? `\`${session.claudeSessionId.substring(0, 12)}…\``
+        : m.sessionMissing;
+      return `• \`${threadTs}\` ${sessionId} ${formatSlackDate(session.lastActivity)}`;
+    });
+    if (sessions.length > MAX_LISTED_ITEMS) {
+      lines.push(m.moreSessions(sessions.length - MAX_LISTED_ITEMS));
+    }
+    blocks.push(buildTextBlock(truncateForSlack(lines.join("\n"))));
+  }
+
+  return { blocks, fallbackText: m.sessionsFallback(sessions.length) };
+}
+
+/**
+ * 사용량 합계 한 줄을 생성합니다.
+ */
+function describeUsageTotals(locale: Locale, totals: UsageTotals): string {
+  const inputTokens = totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+  return getMessages(locale).vibe.usageTotals(
+    formatCost(totals.costUsd),
+    totals.runs,
+    formatTokenCount(inputTokens),
+    formatTokenCount(totals.outputTokens),
+  );
+}
+
+/**
+ * /vibe usage 메시지를 생성합니다.
+ *
+ * @param report 사용량 집계
+ * @param days 집계 일수
+ */
+export function buildVibeUsageMessage(
+  locale: Locale,
+  report: UsageReport,
+  days: number,
+): MessageBlocks {
+  const m = getMessages(locale).vibe;
+  const period = m.usagePeriod(days, report.since);
+  const blocks: SlackBlock[] = [
+    buildTextBlock(`${m.usageTitle(period)}\n${describeUsageTotals(locale, report.total)}`),
+  ];
+
+  if (report.total.runs === 0) {
+    blocks.push(buildTextBlock(m.usageEmpty));
+    return { blocks, fallbackText: m.usageFallback(period) };
+  }
+
+  const userLines = report.byUser
+    .slice(0, MAX_LISTED_ITEMS)
+    .map((entry) => `• <@${entry.userId}> ${describeUsageTotals(locale, entry)}`);
+  const channelLines = report.byChannel
+    .slice(0, MAX_LISTED_ITEMS)
+    .map((entry) => `• <#${entry.channel}> ${describeUsageTotals(locale, entry)}`);
+
+  blocks.push(
+    { type: "divider" },
+    buildTextBlock(truncateForSlack(`${m.usageByUser}\n${userLines.join("\n")}`)),
+    buildTextBlock(truncateForSlack(`${m.usageByChannel}\n${channelLines.join("\n")}`)),
+  );
+
   return {
     blocks,
-    fallbackText: `${userMention} 🤔 생각하는 중...`.trim(),
+    fallbackText: `${m.usageFallback(period)}: ${formatCost(report.total.costUsd)}`,
   };
 }
+
+/**
+ * /vibe 명령 결과 안내 메시지를 생성합니다.
+ */
+export function buildVibeNoticeMessage(text: string): MessageBlocks {
+  return { blocks: [buildTextBlock(text)], fallbackText: text };
+}
+
+// ============================================================================
+// 작업 내역 창 빌더
+// ============================================================================
+
+// 작업 내역 창의 블록 수 제한 (모달 최대 100개, 요약용 블록 여유)
+const MAX_TIMELINE_BLOCKS = 95;
+
+/** 작업 내역 모달 view */
+interface TimelineModalView {
+  type: "modal";
+  title: { type: "plain_text"; text: string };
+  close: { type: "plain_text"; text: string };
+  blocks: SlackBlock[];
+}
+
+/**
+ * 실행 한 번의 전체 도구 호출 내역을 보여주는 모달을 생성합니다.
+ * 단계들은 section 블록 하나에 들어갈 만큼씩 묶습니다.
+ */
+export function buildTimelineModal(
+  locale: Locale,
+  userQuery: string,
+  steps: TimelineStep[],
+): TimelineModalView {
+  const m = getMessages(locale).timeline;
+  const totalMs = steps.reduce((sum, step) => sum + (step.durationMs ?? 0), 0);
+  const failedCount = steps.filter((step) => step.status === "failed").length;
+  const summary = m.summary(steps.length, formatStepDuration(locale, totalMs), failedCount);
+
+  const blocks: SlackBlock[] = [
+    buildTextBlock(`${m.request}\n> ${truncateForSlack(userQuery.replace(/\n/g, " "), 500)}`),
+    { type: "context", elements: [{ type: "mrkdwn", text: `_${summary}_` }] },
+    { type: "divider" },
+  ];
+
+  let chunk: string[] = [];
+  let chunkLength = 0;
+  let shownCount = 0;
+  const flush = () => {
+    if (chunk.length > 0) {
+      blocks.push(buildTextBlock(chunk.join("\n")));
+      chunk = [];
+      chunkLength = 0;
+    }
+  };
+
+  for (const [index, step] of steps.entries()) {
+    const description = step.description ? ` — ${truncateForSlack(step.description, 100)}` : "";
+    const line = `${index + 1}. ${formatTimelineStep(locale, step)}${description}`;
+    if (chunkLength + line.length + 1 > MAX_TEXT_LENGTH) {
+      if (blocks.length >= MAX_TIMELINE_BLOCKS) {
+        break;
+      }
+      flush();
+    }
+    chunk.push(line);
+    chunkLength += line.length + 1;
+    shownCount++;
+  }
+  flush();
+
+  if (steps.length === 0) {
+    blocks.push(buildTextBlock(m.noSteps));
+  } else if (shownCount < steps.length) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: m.omittedSteps(steps.length - shownCount) }],
+    });
+  }
+
+  return {
+    type: "modal",
+    title: { type: "plain_text", text: m.modalTitle },
+    close: { type: "plain_text", text: m.modalClose },
+    blocks,
+  };
+}
+
+// ============================================================================
+// App Home 대시보드 빌더
+// ============================================================================
+
+// 대시보드에 보여줄 최근 실행 기록 수 (홈 탭 블록 수 제한 100개)
+const MAX_RECENT_RUNS = 10;
+
+// 홈 탭 블록 수 제한
+const MAX_HOME_BLOCKS = 100;
+
+// 대시보드에서 스레드마다 보여줄 대기 메시지 수 (나머지는 "외 N개"로 줄임)
+const MAX_HOME_QUEUE_ROWS = 3;
+
+// 스레드 목록 뒤에 붙는 블록 수 ("외 N개 스레드" 줄, 구분선, 최근 실행 제목과 목록)
+const HOME_TRAILING_BLOCKS = 4;
+
+/** 대시보드에 표시할 스레드 정보 */
+export interface HomeThreadInfo {
+  snapshot: ThreadSnapshot;
+  /** 처리 중인 작업의 경과 시간(초)과 도구 호출 수 (처리 중이 아니면 null) */
+  progress: { elapsedSeconds: number; toolCallCount: number } | null;
+}
+
+/** 홈 탭 view */
+interface HomeView {
+  type: "home";
+  blocks: SlackBlock[];
+}
+
+/**
+ * 대시보드의 스레드 블록들을 생성합니다.
+ * 관리자에게는 처리 중인 작업의 "멈춰!" 버튼과 대기 메시지의 "취소" 버튼을 붙입니다.
+ */
+function buildHomeThreadBlocks(
+  locale: Locale,
+  info: HomeThreadInfo,
+  isAdmin: boolean,
+): SlackBlock[] {
+  const messages = getMessages(locale);
+  const m = messages.threads;
+  const { snapshot, progress } = info;
+  const channel = snapshot.currentMessage?.channel ?? snapshot.queue[0]?.channel;
+  const blocks: SlackBlock[] = [
+    buildTextBlock(`${m.thread(snapshot.threadTs)}${channel ? ` <#${channel}>` : ""}`),
+  ];
+
+  if (snapshot.isProcessing) {
+    const current = snapshot.currentMessage ? describeQueuedMessage(snapshot.currentMessage) : "";
+    const stats = progress
+      ? `\n${messages.home.progress(formatDuration(locale, progress.elapsedSeconds), progress.toolCallCount)}`
+      : "";
+    const block = buildTextBlock(truncateForSlack(`${m.processingQuery(current)}${stats}`));
+    if (isAdmin) {
+      block.accessory = {
+        type: "button",
+        text: { type: "plain_text", text: messages.stopButton, emoji: true },
+        action_id: "stop_claude",
+        value: snapshot.threadTs,
+        style: "danger",
+      };
+    }
+    blocks.push(block);
+  }
+
+  for (const [index, message] of snapshot.queue.slice(0, MAX_HOME_QUEUE_ROWS).entries()) {
+    const block = buildTextBlock(
+      truncateForSlack(m.queued(index + 1, describeQueuedMessage(message))),
+    );
+    if (isAdmin) {
+      block.accessory = {
+        type: "button",
+        text: { type: "plain_text", text: messages.cancelButton, emoji: true },
+        action_id: "cancel_queued",
+        value: JSON.stringify({ threadTs: snapshot.threadTs, messageId: message.id }),
+      };
+    }
+    blocks.push(block);
+  }
+  if (snapshot.queue.length > MAX_HOME_QUEUE_ROWS) {
+    blocks.push({
+      type: "context",
+      elements: [
+        { type: "mrkdwn", text: m.moreQueued(snapshot.queue.length - MAX_HOME_QUEUE_ROWS) },
+      ],
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * 최근 실행 기록 한 줄을 생성합니다.
+ */
+function describeRun(locale: Locale, run: RunRecord): string {
+  const statusLabels: Record<RunStatus, string> = {
+    succeeded: "✅",
+    failed: "❌",
+    aborted: "🛑",
+  };
+  const error = run.errorMessage ? `\n      _${previewQuery(run.errorMessage)}_` : "";
+  const stats = getMessages(locale).threads.runStats(
+    formatDuration(locale, run.durationSeconds),
+    run.toolCallCount,
+  );
+  return `${statusLabels[run.status]} ${formatSlackDate(run.finishedAt)} <#${run.channel}> ${describeQueuedMessage(run)} _(${stats})_${error}`;
+}
+
+/**
+ * App Home 대시보드 view를 생성합니다.
+ *
+ * @param locale 보는 사람의 언어
+ * @param threads 처리 중이거나 대기 중인 스레드들
+ * @param pool 전역 작업 풀 현황
+ * @param recentRuns 최근 끝난 실행들 (최신순)
+ * @param isAdmin 보는 사람이 관리자인지 (관리 버튼 표시 여부)
+ */
+export function buildHomeView(
+  locale: Locale,
+  threads: HomeThreadInfo[],
+  pool: { active: number; max: number; waiting: number },
+  recentRuns: RunRecord[],
+  isAdmin: boolean,
+): HomeView {
+  const { home: m, threads: threadMessages } = getMessages(locale);
+  const versionInfo = getVersionInfoText().replace(/^, /, "");
+  const summary = [
+    versionInfo || m.noVersion,
+    m.running(pool.active, pool.max),
+    m.waitingThreads(pool.waiting),
+    m.updatedAt(formatSlackDate(new Date())),
+  ].join(" · ");
+
+  const blocks: SlackBlock[] = [
+    { type: "header", text: { type: "plain_text", text: m.header, emoji: true } },
+    { type: "context", elements: [{ type: "mrkdwn", text: summary }] },
+    { type: "divider" },
+    buildTextBlock(m.activeTitle),
+  ];
+
+  if (threads.length === 0) {
+    blocks.push(buildTextBlock(threadMessages.noActiveThreads));
+  }
+  // 최근 실행 섹션이 블록 수 제한에 잘리지 않도록 자리가 남는 스레드까지만 보여줌
+  let listedCount = 0;
+  for (const info of threads.slice(0, MAX_LISTED_ITEMS)) {
+    const threadBlocks = buildHomeThreadBlocks(locale, info, isAdmin);
+    if (blocks.length + threadBlocks.length + HOME_TRAILING_BLOCKS > MAX_HOME_BLOCKS) {
+      break;
+    }
+    blocks.push(...threadBlocks);
+    listedCount++;
+  }
+  if (threads.length > listedCount) {
+    blocks.push(buildTextBlock(threadMessages.moreThreads(threads.length - listedCount)));
+  }
+
+  blocks.push({ type: "divider" }, buildTextBlock(m.recentTitle));
+  const runs = recentRuns.slice(0, MAX_RECENT_RUNS);
+  blocks.push(
+    buildTextBlock(
+      runs.length > 0
+        ? truncateForSlack(runs.map((run) => describeRun(locale, run)).join("\n"))
+        : m.noRecentRuns,
+    ),
+  );
+
+  return { type: "home", blocks };
+}
@@ -3,8 +3,14 @@
  *
  * 한 스레드 내에서 메시지 처리 중 새 메시지가 들어오면
  * 큐에 넣어 순차적으로 처리하는 시스템.
+ *
+ * 대기 중인 메시지와 처리 중이던 메시지는 data/thread-queues.json에 저장되어
+ * 앱이 재시작되어도 이어서 처리할 수 있습니다.
  */
 
+import type { SavedAttachment } from "./attachments";
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+import { logger } from "./logger";
 import type { ResponseHandler } from "./response-handler";
 
 /**
@@ -18,6 +24,7 @@ export interface QueuedMessage {
   responseTs: string; // "큐잉됨" 메시지의 ts (나중에 업데이트용)
   queuedAt: Date;
   status: "queued" | "cancelled";
+  attachments?: SavedAttachment[]; // 멘션과 함께 올라온 첨부 파일 (이미 내려받음)
 }
 
 /**
@@ -27,9 +34,39 @@ interface ThreadState {
   isProcessing: boolean;
   currentHandler: ResponseHandler | null;
   currentMessageId: string | null;
+  currentMessage: QueuedMessage | null; // 처리 중인 메시지 (재시작 시 복구용)
   queue: QueuedMessage[];
 }
 
+/** 파일에 저장되는 메시지 정보 */
+type StoredMessage = Omit<QueuedMessage, "queuedAt"> & { queuedAt: string };
+
+/** 파일에 저장되는 스레드 정보 */
+interface StoredThread {
+  inFlight: StoredMessage | null;
+  queue: StoredMessage[];
+}
+
+type StoredThreads = Record<string, StoredThread>;
+
+/**
+ * 스레드 상태 조회용 스냅샷 (/vibe 명령 등)
+ */
+export interface ThreadSnapshot {
+  threadTs: string;
+  isProcessing: boolean;
+  currentMessage: QueuedMessage | null;
+  queue: QueuedMessage[]; // 대기 중인 것만
+}
+
+/**
+ * 재시작 후 복구된 스레드 정보
+ */
+export interface RestoredThread {
+  threadTs: string;
+  messages: QueuedMessage[]; // 처리 순서대로 (중단됐던 메시지가 맨 앞)
+}
+
 /**
  * 스레드별 큐 관리자 클래스
  *
@@ -39,6 +76,38 @@ interface ThreadState {
 class ThreadQueueManager {
   private threads: Map<string, ThreadState> = new Map();
 
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 큐를 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   *
+   * 재시작 전에 처리 중이던 메시지는 중단된 것이므로 큐의 맨 앞에 다시 넣습니다.
+   * 반환값: 대기 중인 메시지가 있는 스레드 목록
+   */
+  load(storePath: string = getDataFilePath("thread-queues.json")): RestoredThread[] {
+    this.storePath = storePath;
+
+    const stored = readJsonFile<StoredThreads>(storePath, {});
+    const restored: RestoredThread[] = [];
+
+    for (const [threadTs, entry] of Object.entries(stored)) {
+      const messages = [...(entry.inFlight ? [entry.inFlight] : []), ...entry.queue].map(
+        (m): QueuedMessage => ({ ...m, queuedAt: new Date(m.queuedAt), status: "queued" }),
+      );
+      if (messages.length === 0) {
+        continue;
+      }
+
+      const state = this.getOrCreateState(threadTs);
+      state.queue = messages;
+      restored.push({ threadTs, messages });
+    }
+
+    this.persist();
+    return restored;
+  }
+
   /**
    * 스레드 상태를 가져오거나 새로 생성합니다.
    */
@@ -49,6 +118,7 @@ class ThreadQueueManager {
         isProcessing: false,
         currentHandler: null,
         currentMessageId: null,
+        currentMessage: null,
         queue: [],
       };
       this.threads.set(threadTs, state);
@@ -81,6 +151,20 @@ class ThreadQueueManager {
     return true;
   }
 
+  /**
+   * 처리 중인 메시지 정보를 기록합니다.
+   *
+   * 응답 메시지가 만들어진 뒤 호출하며, 재시작 시 이어서 처리하는 데 사용됩니다.
+   */
+  setCurrentMessage(threadTs: string, message: QueuedMessage): void {
+    const state = this.threads.get(threadTs);
+    if (!state || state.currentMessageId !== message.id) {
+      return;
+    }
+    state.currentMessage = message;
+    this.persist();
+  }
+
   /**
    * 현재 처리 중인 핸들러를 반환합니다.
    */
@@ -111,16 +195,20 @@ class ThreadQueueManager {
     state.isProcessing = false;
     state.currentHandler = null;
     state.currentMessageId = null;
+    state.currentMessage = null;
 
     // 큐에서 다음 메시지를 가져옴 (취소된 것은 건너뜀)
+    let next: QueuedMessage | null = null;
     while (state.queue.length > 0) {
-      const next = state.queue.shift()!;
-      if (next.status === "queued") {
-        return next;
+      const candidate = state.queue.shift();
+      if (candidate?.status === "queued") {
+        next = candidate;
+        break;
       }
     }
 
-    return null;
+    this.persist();
+    return next;
   }
 
   /**
@@ -137,6 +225,8 @@ class ThreadQueueManager {
     state.isProcessing = false;
     state.currentHandler = null;
     state.currentMessageId = null;
+    state.currentMessage = null;
+    this.persist();
   }
 
   /**
@@ -147,6 +237,11 @@ class ThreadQueueManager {
   enqueue(threadTs: string, message: QueuedMessage): number {
     const state = this.getOrCreateState(threadTs);
     state.queue.push(message);
+    this.persist();
+
+    logger
+      .child({ threadTs, messageId: message.id, userId: message.userId, channel: message.channel })
+      .event("queued", { position: state.queue.length });
     return state.queue.length;
   }
 
@@ -164,6 +259,7 @@ class ThreadQueueManager {
     const message = state.queue.find((m) => m.id === messageId);
     if (message && message.status === "queued") {
       message.status = "cancelled";
+      this.persist();
       return true;
     }
     return false;
@@ -187,9 +283,26 @@ class ThreadQueueManager {
 
     // 큐에서 제거하고 반환
     const [message] = state.queue.splice(index, 1);
+    this.persist();
     return message;
   }
 
+  /**
+   * 특정 메시지를 큐의 맨 앞으로 옮깁니다.
+   *
+   * 반환값: 이동 성공 여부
+   */
+  moveToFront(threadTs: string, messageId: string): boolean {
+    const message = this.prioritize(threadTs, messageId);
+    if (!message) {
+      return false;
+    }
+
+    this.getOrCreateState(threadTs).queue.unshift(message);
+    this.persist();
+    return true;
+  }
+
   /**
    * 큐에서 특정 메시지를 조회합니다.
    */
@@ -212,11 +325,63 @@ class ThreadQueueManager {
     return state.queue.filter((m) => m.status === "queued").length;
   }
 
+  /**
+   * 스레드의 대기 중인 메시지를 모두 취소합니다.
+   *
+   * 반환값: 취소된 메시지 목록
+   */
+  cancelAllQueued(threadTs: string): QueuedMessage[] {
+    const state = this.threads.get(threadTs);
+    if (!state) {
+      return [];
+    }
+
+    const cancelled = state.queue.filter((m) => m.status === "queued");
+    for (const message of cancelled) {
+      message.status = "cancelled";
+    }
+    if (cancelled.length > 0) {
+      this.persist();
+    }
+    return cancelled;
+  }
+
+  /**
+   * 스레드 상태 스냅샷을 반환합니다 (없으면 null).
+   */
+  getSnapshot(threadTs: string): ThreadSnapshot | null {
+    const state = this.threads.get(threadTs);
+    if (!state) {
+      return null;
+    }
+    return {
+      threadTs,
+      isProcessing: state.isProcessing,
+      currentMessage: state.currentMessage,
+      queue: state.queue.filter((m) => m.status === "queued"),
+    };
+  }
+
+  /**
+   * 처리 중이거나 대기 중인 메시지가 있는 스레드들의 스냅샷을 반환합니다.
+   */
+  getActiveSnapshots(): ThreadSnapshot[] {
+    const snapshots: ThreadSnapshot[] = [];
+    for (const threadTs of this.threads.keys()) {
+      const snapshot = this.getSnapshot(threadTs);
+      if (snapshot && (snapshot.isProcessing || snapshot.queue.length > 0)) {
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots;
+  }
+
   /**
    * 스레드 상태를 정리합니다.
    */
   cleanupThread(threadTs: string): void {
     this.threads.delete(threadTs);
+    this.persist();
   }
 
   /**
@@ -243,6 +408,37 @@ class ThreadQueueManager {
         this.threads.delete(threadTs);
       }
     }
+
+    this.persist();
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  /**
+   * 현재 큐 상태를 파일에 기록합니다.
+   * 취소된 메시지는 저장하지 않습니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    const toStored = (m: QueuedMessage): StoredMessage => ({
+      ...m,
+      queuedAt: m.queuedAt.toISOString(),
+    });
+
+    const stored: StoredThreads = {};
+    for (const [threadTs, state] of this.threads) {
+      const queue = state.queue.filter((m) => m.status === "queued").map(toStored);
+      const inFlight = state.currentMessage ? toStored(state.currentMessage) : null;
+      if (inFlight || queue.length > 0) {
+        stored[threadTs] = { inFlight, queue };
+      }
+    }
+    writeJsonFile(this.storePath, stored);
   }
 }
 
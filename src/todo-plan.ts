@@ -0,0 +1,52 @@
+/**
+ * Claude의 작업 계획 (TodoWrite)
+ *
+ * Claude는 여러 단계 작업을 할 때 TodoWrite 도구로 할 일 목록 전체를 매번 다시 씁니다.
+ * 가장 최근 입력을 계획으로 보고 진행 메시지와 결과 메시지에 체크리스트로 보여줍니다.
+ */
+
+/** 할 일 상태 */
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+/** 할 일 하나 */
+export interface TodoItem {
+  content: string;
+  status: TodoStatus;
+  /** 진행 중일 때 보여줄 문구 (예: "테스트 실행 중") */
+  activeForm?: string;
+}
+
+const TODO_STATUSES: TodoStatus[] = ["pending", "in_progress", "completed"];
+
+/**
+ * TodoWrite 도구 입력에서 할 일 목록을 꺼냅니다.
+ * 형식이 맞지 않는 항목은 건너뛰고, 목록이 없으면 null을 반환합니다.
+ */
+export function parseTodoWriteInput(input: Record<string, unknown>): TodoItem[] | null {
+  if (!Array.isArray(input.todos)) {
+    return null;
+  }
+
+  const todos: TodoItem[] = [];
+  for (const raw of input.todos as Array<Record<string, unknown> | null>) {
+    if (!raw || typeof raw.content !== "string") {
+      continue;
+    }
+    const status = TODO_STATUSES.includes(raw.status as TodoStatus)
+      ? (raw.status as TodoStatus)
+      : "pending";
+    todos.push({
+      content: raw.content,
+      status,
+      activeForm: typeof raw.activeForm === "string" ? raw.activeForm : undefined,
+    });
+  }
+  return todos;
+}
+
+/**
+ * 완료한 할 일 수를 반환합니다.
+ */
+export function countCompleted(todos: TodoItem[]): number {
+  return todos.filter((todo) => todo.status === "completed").length;
+}
@@ -0,0 +1,283 @@
+/**
+ * 위험한 도구 호출에 대한 슬랙 승인
+ *
+ * onToolUse는 도구가 이미 실행된 뒤에야 알려주므로, 실행 전에 멈추려면
+ * Claude Code의 PreToolUse 훅을 사용해야 합니다.
+ *
+ * 흐름:
+ * 1. Claude가 Bash 도구를 쓰려고 하면 tool-approval-hook.sh 훅이 실행됨
+ * 2. 훅이 봇의 로컬 HTTP 라우트(/tool-approval)로 도구 입력을 보내고 응답을 기다림
+ * 3. 명령이 승인 패턴에 걸리면 진행 메시지에 승인/거부 버튼을 띄우고 대기
+ * 4. 버튼 응답(또는 타임아웃 시 거부)을 훅에 돌려주면 Claude Code가 실행/차단함
+ */
+
+import { randomBytes } from "node:crypto";
+import type { ServerResponse } from "node:http";
+import type { CustomRoute } from "@slack/bolt";
+import { getDefaultLocale, getMessages, type Locale } from "./i18n";
+import { logger } from "./logger";
+import { generateMessageId, threadQueueManager } from "./thread-queue";
+
+/** 승인 결과 */
+export interface ApprovalDecision {
+  approved: boolean;
+  /** 응답한 슬랙 유저 ID (타임아웃/취소면 null) */
+  userId: string | null;
+  reason: string;
+}
+
+/** 응답을 기다리는 승인 요청 */
+interface PendingApproval {
+  id: string;
+  threadTs: string;
+  command: string;
+  /** 거부 사유를 적을 언어 (요청한 유저의 언어) */
+  locale: Locale;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 승인이 필요한 Bash 명령 패턴 (정규식, 쉼표로 구분)
+const DEFAULT_PATTERNS = "\\bgit\\s+push\\b,\\brm\\s,deploy";
+
+// TOOL_APPROVAL_TIMEOUT_SECONDS가 없거나 잘못됐을 때 쓰는 대기 시간(초)
+const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 120;
+
+// 훅 요청 인증용 토큰 (프로세스마다 새로 생성되어 Claude 프로세스 환경 변수로만 전달됨)
+const approvalToken = randomBytes(16).toString("hex");
+
+/**
+ * 승인 모드가 켜져 있는지 확인합니다.
+ */
+export function isToolApprovalEnabled(): boolean {
+  return process.env.TOOL_APPROVAL_ENABLED === "true";
+}
+
+/**
+ * 승인 대기 시간(초)을 반환합니다. 이 시간이 지나면 거부됩니다.
+ */
+export function getApprovalTimeoutSeconds(): number {
+  const value = process.env.TOOL_APPROVAL_TIMEOUT_SECONDS;
+  if (!value) {
+    return DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+  }
+
+  // 숫자가 아니면 NaN이 되어 바로 타임아웃되므로 모든 명령이 거부됨
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    logger.warn("TOOL_APPROVAL_TIMEOUT_SECONDS가 1 이상의 정수가 아니라 기본값을 씁니다", {
+      value,
+      fallback: DEFAULT_APPROVAL_TIMEOUT_SECONDS,
+    });
+    return DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+  }
+  return parsed;
+}
+
+/**
+ * 명령이 승인 패턴에 걸리는지 확인합니다.
+ */
+export function requiresApproval(command: string): boolean {
+  const patterns = (process.env.TOOL_APPROVAL_PATTERNS || DEFAULT_PATTERNS)
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return patterns.some((pattern) => {
+    try {
+      return new RegExp(pattern).test(command);
+    } catch {
+      logger.warn("잘못된 승인 패턴", { pattern });
+      return false;
+    }
+  });
+}
+
+/**
+ * Claude 프로세스에 넘길 환경 변수를 반환합니다.
+ * 훅은 이 값들로 봇에 접속합니다. 승인 모드가 꺼져 있으면 빈 객체입니다.
+ */
+export function getToolApprovalEnv(threadTs: string): Record<string, string> {
+  if (!isToolApprovalEnabled()) {
+    return {};
+  }
+
+  const port = parseInt(process.env.PORT || "3000", 10);
+  return {
+    VIBECODER_APPROVAL_URL: `http://127.0.0.1:${port}/tool-approval`,
+    VIBECODER_APPROVAL_TOKEN: approvalToken,
+    VIBECODER_APPROVAL_TIMEOUT: String(getApprovalTimeoutSeconds() + 10),
+    VIBECODER_THREAD_TS: threadTs,
+  };
+}
+
+/**
+ * 승인 요청 관리자 클래스
+ */
+class ToolApprovalManager {
+  private pending: Map<string, PendingApproval> = new Map();
+
+  /**
+   * 승인 요청을 등록하고 응답을 기다립니다.
+   * 타임아웃이 지나면 거부로 처리됩니다.
+   */
+  request(
+    id: string,
+    threadTs: string,
+    command: string,
+    locale: Locale,
+  ): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(id, {
+          approved: false,
+          userId: null,
+          reason: getMessages(locale).approval.timedOutReason(getApprovalTimeoutSeconds()),
+        });
+      }, getApprovalTimeoutSeconds() * 1000);
+
+      this.pending.set(id, { id, threadTs, command, locale, resolve, timer });
+    });
+  }
+
+  /**
+   * 버튼 응답으로 승인 요청을 처리합니다.
+   *
+   * 반환값: 처리된 요청 (이미 처리됐거나 없으면 null)
+   */
+  respond(id: string, approved: boolean, userId: string): PendingApproval | null {
+    const approval = this.pending.get(id);
+    if (!approval) {
+      return null;
+    }
+
+    const m = getMessages(approval.locale).approval;
+    return this.settle(id, {
+      approved,
+      userId,
+      reason: approved ? m.approvedReason(`<@${userId}>`) : m.deniedReason(`<@${userId}>`),
+    });
+  }
+
+  /**
+   * 스레드의 대기 중인 승인 요청을 모두 거부합니다 (작업 중단 시).
+   */
+  cancelThread(threadTs: string): void {
+    for (const approval of [...this.pending.values()]) {
+      if (approval.threadTs === threadTs) {
+        this.settle(approval.id, {
+          approved: false,
+          userId: null,
+          reason: getMessages(approval.locale).approval.cancelledReason,
+        });
+      }
+    }
+  }
+
+  private settle(id: string, decision: ApprovalDecision): PendingApproval | null {
+    const approval = this.pending.get(id);
+    if (!approval) {
+      return null;
+    }
+
+    clearTimeout(approval.timer);
+    this.pending.delete(id);
+    approval.resolve(decision);
+    return approval;
+  }
+}
+
+export const toolApprovalManager = new ToolApprovalManager();
+
+// ============================================================================
+// 훅 요청 라우트
+// ============================================================================
+
+/**
+ * PreToolUse 훅 응답을 보냅니다.
+ * 결정이 없으면 빈 객체를 보내 Claude Code의 기본 동작을 따르게 합니다.
+ */
+function sendHookResponse(res: ServerResponse, decision?: ApprovalDecision): void {
+  const body = decision
+    ? {
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: decision.approved ? "allow" : "deny",
+          permissionDecisionReason: decision.reason,
+        },
+      }
+    : {};
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * 훅이 호출하는 승인 라우트입니다. (Bolt customRoutes로 등록)
+ */
+export const toolApprovalRoute: CustomRoute = {
+  path: "/tool-approval",
+  method: "POST",
+  handler: async (req, res) => {
+    if (req.headers["x-vibecoder-token"] !== approvalToken) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    let toolName = "";
+    let command = "";
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const input = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      toolName = input.tool_name ?? "";
+      command = input.tool_input?.command ?? "";
+    } catch (error) {
+      logger.error("승인 요청 파싱 실패", { error });
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+
+    if (toolName !== "Bash" || !requiresApproval(command)) {
+      sendHookResponse(res);
+      return;
+    }
+
+    const threadTs = String(req.headers["x-vibecoder-thread"] ?? "");
+    const handler = threadQueueManager.getCurrentHandler(threadTs);
+    if (!handler) {
+      sendHookResponse(res, {
+        approved: false,
+        userId: null,
+        reason: getMessages(getDefaultLocale()).approval.noMessageReason,
+      });
+      return;
+    }
+
+    const approvalId = generateMessageId();
+    const log = logger.child({ threadTs });
+    log.info("승인 요청", { approvalId, command });
+
+    const decision = toolApprovalManager.request(
+      approvalId,
+      threadTs,
+      command,
+      handler.getLocale(),
+    );
+    await handler.showApprovalRequest(approvalId, command, getApprovalTimeoutSeconds());
+
+    const result = await decision;
+    log.info(result.approved ? "승인 허용" : "승인 거부", {
+      approvalId,
+      command,
+      decidedBy: result.userId,
+    });
+
+    await handler.showApprovalDecision(approvalId, command, result);
+    sendHookResponse(res, result);
+  },
+};
@@ -0,0 +1,186 @@
+/**
+ * 토큰/비용 사용량 장부
+ *
+ * Claude 실행이 끝날 때 result 메시지의 사용량을 슬랙 유저, 채널, 날짜별로 합산해
+ * data/usage-ledger.json에 저장합니다. 공용 Claude 계정의 사용량을 누가 얼마나
+ * 쓰는지 /vibe usage로 확인할 수 있습니다.
+ */
+
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+
+/** 실행 한 번의 토큰 사용량 */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** 비용(USD). SDK가 비용을 주지 않으면 null */
+  costUsd: number | null;
+}
+
+/** 장부 항목 (유저 + 채널 + 날짜 단위 합계) */
+export interface UsageEntry {
+  /** YYYY-MM-DD (서버 로컬 시간 기준) */
+  day: string;
+  userId: string;
+  channel: string;
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+/** 합계 (유저별/채널별 집계에 사용) */
+export type UsageTotals = Omit<UsageEntry, "day" | "userId" | "channel">;
+
+/** 기간 집계 결과 */
+export interface UsageReport {
+  /** 집계 시작 날짜 (YYYY-MM-DD) */
+  since: string;
+  total: UsageTotals;
+  /** 비용(없으면 토큰) 많은 순 */
+  byUser: Array<{ userId: string } & UsageTotals>;
+  byChannel: Array<{ channel: string } & UsageTotals>;
+}
+
+/**
+ * 날짜를 YYYY-MM-DD 문자열로 변환합니다. (서버 로컬 시간 기준)
+ */
+function formatDay(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 빈 합계를 만듭니다.
+ */
+function emptyTotals(): UsageTotals {
+  return {
+    runs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * 합계에 다른 합계를 더합니다.
+ */
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.runs += source.runs;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  target.costUsd += source.costUsd;
+}
+
+/**
+ * 합계 정렬 기준: 비용, 같으면 출력 토큰 많은 순
+ */
+function compareTotals(a: UsageTotals, b: UsageTotals): number {
+  return b.costUsd - a.costUsd || b.outputTokens - a.outputTokens;
+}
+
+/**
+ * 사용량 장부 클래스
+ */
+class UsageLedger {
+  // 키: "day|userId|channel"
+  private entries: Map<string, UsageEntry> = new Map();
+
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 장부를 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   * 반환값: 불러온 항목 수
+   */
+  load(storePath: string = getDataFilePath("usage-ledger.json")): number {
+    this.storePath = storePath;
+
+    for (const entry of readJsonFile<UsageEntry[]>(storePath, [])) {
+      this.entries.set(`${entry.day}|${entry.userId}|${entry.channel}`, entry);
+    }
+
+    return this.entries.size;
+  }
+
+  /**
+   * 실행 한 번의 사용량을 장부에 더합니다.
+   */
+  record(userId: string, channel: string, usage: TokenUsage, date: Date = new Date()): void {
+    const day = formatDay(date);
+    const key = `${day}|${userId}|${channel}`;
+
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { day, userId, channel, ...emptyTotals() };
+      this.entries.set(key, entry);
+    }
+
+    addTotals(entry, { ...usage, runs: 1, costUsd: usage.costUsd ?? 0 });
+    this.persist();
+  }
+
+  /**
+   * 최근 며칠간의 사용량을 집계합니다.
+   *
+   * @param days 오늘을 포함한 일수 (1이면 오늘만)
+   */
+  getReport(days: number, now: Date = new Date()): UsageReport {
+    const sinceDate = new Date(now);
+    sinceDate.setDate(sinceDate.getDate() - (days - 1));
+    const since = formatDay(sinceDate);
+
+    const total = emptyTotals();
+    const byUser = new Map<string, UsageTotals>();
+    const byChannel = new Map<string, UsageTotals>();
+
+    for (const entry of this.entries.values()) {
+      if (entry.day < since) {
+        continue;
+      }
+
+      addTotals(total, entry);
+
+      const userTotals = byUser.get(entry.userId) ?? emptyTotals();
+      addTotals(userTotals, entry);
+      byUser.set(entry.userId, userTotals);
+
+      const channelTotals = byChannel.get(entry.channel) ?? emptyTotals();
+      addTotals(channelTotals, entry);
+      byChannel.set(entry.channel, channelTotals);
+    }
+
+    return {
+      since,
+      total,
+      byUser: [...byUser.entries()]
+        .map(([userId, totals]) => ({ userId, ...totals }))
+        .sort(compareTotals),
+      byChannel: [...byChannel.entries()]
+        .map(([channel, totals]) => ({ channel, ...totals }))
+        .sort(compareTotals),
+    };
+  }
+
+  /**
+   * 장부를 파일에 저장합니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonFile(this.storePath, [...this.entries.values()]);
+  }
+}
+
+export const usageLedger = new UsageLedger();
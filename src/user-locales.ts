@@ -0,0 +1,118 @@
+/**
+ * 유저별 언어 설정
+ *
+ * 봇 문구를 유저마다 어떤 언어로 보여줄지 정합니다. 다음 순서로 고릅니다.
+ * 1. /vibe lang으로 직접 고른 언어 (data/user-locales.json에 저장)
+ * 2. 슬랙 프로필의 언어 (users.info의 locale, 한 시간 동안 메모리에 캐시)
+ * 3. DEFAULT_LOCALE 환경 변수 (기본 ko)
+ */
+
+import { getDefaultLocale, type Locale, parseLocale } from "./i18n";
+import { getDataFilePath, readJsonFile, writeJsonFile } from "./json-store";
+import { logger } from "./logger";
+
+// 슬랙 프로필 언어를 다시 조회하기 전까지 캐시해 두는 시간
+const PROFILE_CACHE_MS = 60 * 60 * 1000;
+
+// Slack client 타입 (users.info 메서드만 사용)
+interface SlackClient {
+  users: {
+    info: (args: {
+      user: string;
+      include_locale?: boolean;
+    }) => Promise<{ user?: { locale?: string } }>;
+  };
+}
+
+/** 캐시한 프로필 언어 (지원하지 않는 언어거나 조회에 실패하면 null) */
+interface ProfileLocale {
+  locale: Locale | null;
+  fetchedAt: number;
+}
+
+/**
+ * 유저별 언어 설정 관리자 클래스
+ */
+class UserLocaleManager {
+  // 유저 ID → 직접 고른 언어
+  private preferences: Record<string, Locale> = {};
+  private profileLocales: Map<string, ProfileLocale> = new Map();
+
+  // load() 전에는 null이며, 이때는 메모리에만 유지합니다.
+  private storePath: string | null = null;
+
+  /**
+   * 저장된 언어 설정을 불러옵니다. 앱 시작 시 한 번 호출합니다.
+   */
+  load(storePath: string = getDataFilePath("user-locales.json")): void {
+    this.storePath = storePath;
+    this.preferences = readJsonFile<Record<string, Locale>>(storePath, {});
+  }
+
+  /**
+   * 유저가 직접 고른 언어를 반환합니다. (없으면 null)
+   */
+  getPreference(userId: string): Locale | null {
+    return parseLocale(this.preferences[userId]);
+  }
+
+  /**
+   * 유저가 직접 고른 언어를 저장합니다. null이면 설정을 지우고 프로필 언어를 따릅니다.
+   */
+  setPreference(userId: string, locale: Locale | null): void {
+    if (locale) {
+      this.preferences[userId] = locale;
+    } else {
+      delete this.preferences[userId];
+    }
+    this.persist();
+  }
+
+  /**
+   * 유저에게 보여줄 언어를 정합니다.
+   */
+  async resolve(client: SlackClient, userId: string): Promise<Locale> {
+    const preference = this.getPreference(userId);
+    if (preference) {
+      return preference;
+    }
+    if (userId === "unknown") {
+      return getDefaultLocale();
+    }
+    return (await this.getProfileLocale(client, userId)) ?? getDefaultLocale();
+  }
+
+  /**
+   * 슬랙 프로필의 언어를 조회합니다. 실패하면 null을 캐시해 매번 다시 묻지 않습니다.
+   */
+  private async getProfileLocale(client: SlackClient, userId: string): Promise<Locale | null> {
+    const cached = this.profileLocales.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < PROFILE_CACHE_MS) {
+      return cached.locale;
+    }
+
+    let locale: Locale | null = null;
+    try {
+      const response = await client.users.info({ user: userId, include_locale: true });
+      locale = parseLocale(response.user?.locale);
+    } catch (error) {
+      logger.warn("슬랙 프로필 언어 조회 실패", { userId, error });
+    }
+
+    this.profileLocales.set(userId, { locale, fetchedAt: Date.now() });
+    return locale;
+  }
+
+  /**
+   * 언어 설정을 파일에 저장합니다.
+   */
+  private persist(): void {
+    if (!this.storePath) {
+      return;
+    }
+
+    writeJsonFile(this.storePath, this.preferences);
+  }
+}
+
+export const userLocales = new UserLocaleManager();
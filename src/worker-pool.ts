@@ -0,0 +1,143 @@
+/**
+ * 전역 작업 풀
+ *
+ * 스레드 간에 동시에 실행되는 Claude 프로세스 수를 제한합니다.
+ * 스레드 내 순차 처리(ThreadQueueManager) 위에 얹혀서 동작하며,
+ * 슬롯을 얻지 못한 스레드는 스레드 간 대기열에서 순서를 기다립니다.
+ *
+ * 슬롯은 스레드 단위로 잡습니다. 한 스레드는 한 번에 하나의 작업만 실행하므로
+ * 같은 스레드 안에서 작업이 교체될 때(즉시 처리 등)는 슬롯을 그대로 유지합니다.
+ */
+
+import { logger } from "./logger";
+
+// MAX_CONCURRENT_RUNS가 없거나 잘못됐을 때 쓰는 동시 실행 수
+const DEFAULT_MAX_CONCURRENT_RUNS = 2;
+
+class WorkerPool {
+  private readonly maxConcurrent: number;
+  private active: Set<string> = new Set();
+  private waiting: string[] = [];
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * 슬롯을 얻으려고 시도합니다.
+   *
+   * 이미 슬롯을 가진 스레드면 true를 반환합니다.
+   * 대기 중인 스레드가 있으면 새치기하지 않도록 false를 반환합니다.
+   */
+  tryAcquire(threadTs: string): boolean {
+    if (this.active.has(threadTs)) {
+      return true;
+    }
+    if (this.active.size >= this.maxConcurrent || this.waiting.length > 0) {
+      return false;
+    }
+    this.active.add(threadTs);
+    return true;
+  }
+
+  /**
+   * 스레드의 슬롯을 반납합니다.
+   */
+  release(threadTs: string): void {
+    this.active.delete(threadTs);
+  }
+
+  /**
+   * 스레드를 대기열에 넣습니다 (이미 있으면 그대로 둠).
+   *
+   * 반환값: 대기열 내 위치 (1-based)
+   */
+  wait(threadTs: string): number {
+    if (!this.waiting.includes(threadTs)) {
+      this.waiting.push(threadTs);
+    }
+    return this.getWaitingPosition(threadTs);
+  }
+
+  /**
+   * 스레드를 대기열에서 뺍니다.
+   */
+  removeWaiting(threadTs: string): void {
+    this.waiting = this.waiting.filter((t) => t !== threadTs);
+  }
+
+  /**
+   * 빈 슬롯이 있으면 대기열 맨 앞 스레드에게 슬롯을 주고 반환합니다.
+   *
+   * 반환값: 슬롯을 얻은 스레드 (없으면 null)
+   */
+  takeNextWaiting(): string | null {
+    if (this.active.size >= this.maxConcurrent) {
+      return null;
+    }
+    const next = this.waiting.shift();
+    if (!next) {
+      return null;
+    }
+    this.active.add(next);
+    return next;
+  }
+
+  /**
+   * 대기열 내 위치를 반환합니다 (1-based, 대기 중이 아니면 0).
+   */
+  getWaitingPosition(threadTs: string): number {
+    return this.waiting.indexOf(threadTs) + 1;
+  }
+
+  /**
+   * 스레드가 슬롯을 가지고 있는지 확인합니다.
+   */
+  isActive(threadTs: string): boolean {
+    return this.active.has(threadTs);
+  }
+
+  /**
+   * 실행 중인 스레드 수를 반환합니다.
+   */
+  getActiveCount(): number {
+    return this.active.size;
+  }
+
+  /**
+   * 대기 중인 스레드 수를 반환합니다.
+   */
+  getWaitingCount(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * 최대 동시 실행 수를 반환합니다.
+   */
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+}
+
+/**
+ * MAX_CONCURRENT_RUNS 환경 변수를 읽습니다.
+ * 1 이상의 정수가 아니면 (NaN이면 한도가 사라지므로) 경고를 남기고 기본값을 씁니다.
+ */
+function getMaxConcurrentRuns(): number {
+  const value = process.env.MAX_CONCURRENT_RUNS;
+  if (!value) {
+    return DEFAULT_MAX_CONCURRENT_RUNS;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    logger.warn("MAX_CONCURRENT_RUNS가 1 이상의 정수가 아니라 기본값을 씁니다", {
+      value,
+      fallback: DEFAULT_MAX_CONCURRENT_RUNS,
+    });
+    return DEFAULT_MAX_CONCURRENT_RUNS;
+  }
+  return parsed;
+}
+
+export const workerPool = new WorkerPool(getMaxConcurrentRuns());
@@ -0,0 +1,114 @@
+/**
+ * 스레드별 작업 공간 관리자
+ *
+ * WORKSPACE_MODE=worktree 이면 스레드마다 CLAUDE_CWD 아래 git 저장소들의
+ * worktree를 별도 디렉토리에 만들어, 여러 스레드가 같은 저장소를 동시에
+ * 수정해도 서로의 커밋되지 않은 변경 사항을 건드리지 않게 합니다.
+ *
+ * 작업 공간 구조 (WORKSPACE_ROOT 기본값: data/workspaces):
+ *   <WORKSPACE_ROOT>/<threadTs>/<저장소 이름>  ← CLAUDE_CWD/<저장소 이름>의 worktree
+ */
+
+import { execFile } from "node:child_process";
+import { existsSync, mkdirSync, readdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { getDataFilePath } from "./json-store";
+import { logger } from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 스레드별 작업 공간 모드가 켜져 있는지 확인합니다.
+ */
+export function isWorkspaceModeEnabled(): boolean {
+  return process.env.WORKSPACE_MODE === "worktree";
+}
+
+/**
+ * 작업 공간들이 만들어지는 디렉토리를 반환합니다.
+ */
+function getWorkspaceRoot(): string {
+  return process.env.WORKSPACE_ROOT || getDataFilePath("workspaces");
+}
+
+/**
+ * 스레드 전용 작업 공간을 만듭니다.
+ *
+ * CLAUDE_CWD 바로 아래의 git 저장소마다 현재 HEAD를 기준으로
+ * detached worktree를 만듭니다. git 저장소가 아닌 디렉토리는 건너뜁니다.
+ *
+ * @returns 작업 공간 경로 (Claude의 cwd로 사용)
+ */
+export async function createWorkspace(threadTs: string): Promise<string> {
+  const sourceRoot = process.env.CLAUDE_CWD;
+  if (!sourceRoot) {
+    throw new Error("CLAUDE_CWD가 설정되지 않아 작업 공간을 만들 수 없습니다.");
+  }
+
+  const log = logger.child({ threadTs });
+  const workspacePath = join(getWorkspaceRoot(), threadTs.replace(/\./g, "_"));
+  mkdirSync(workspacePath, { recursive: true });
+
+  for (const entry of readdirSync(sourceRoot, { withFileTypes: true })) {
+    const repoPath = join(sourceRoot, entry.name);
+    const worktreePath = join(workspacePath, entry.name);
+
+    if (!entry.isDirectory() || !existsSync(join(repoPath, ".git")) || existsSync(worktreePath)) {
+      continue;
+    }
+
+    try {
+      await execFileAsync("git", ["-C", repoPath, "worktree", "add", "--detach", worktreePath]);
+    } catch (error) {
+      log.warn("worktree 생성 실패", { repo: entry.name, error });
+    }
+  }
+
+  log.info("작업 공간 생성", { workspacePath });
+  return workspacePath;
+}
+
+/**
+ * 작업 공간을 삭제합니다.
+ *
+ * 각 worktree를 원본 저장소에서 해제한 뒤 디렉토리를 지웁니다.
+ * 커밋되지 않은 변경 사항은 함께 사라집니다.
+ */
+export async function removeWorkspace(workspacePath: string, threadTs: string): Promise<void> {
+  if (!existsSync(workspacePath)) {
+    return;
+  }
+
+  const log = logger.child({ threadTs });
+
+  for (const entry of readdirSync(workspacePath, { withFileTypes: true })) {
+    const worktreePath = join(workspacePath, entry.name);
+    if (!entry.isDirectory() || !existsSync(join(worktreePath, ".git"))) {
+      continue;
+    }
+
+    try {
+      // worktree의 원본 저장소(.git)를 찾아 그쪽에서 해제합니다.
+      const { stdout } = await execFileAsync("git", [
+        "-C",
+        worktreePath,
+        "rev-parse",
+        "--path-format=absolute",
+        "--git-common-dir",
+      ]);
+      await execFileAsync("git", [
+        `--git-dir=${stdout.trim()}`,
+        "worktree",
+        "remove",
+        "--force",
+        worktreePath,
+      ]);
+    } catch (error) {
+      log.warn("worktree 해제 실패", { worktreePath, error });
+    }
+  }
+
+  rmSync(workspacePath, { recursive: true, force: true });
+  log.info("작업 공간 삭제", { workspacePath });
+}
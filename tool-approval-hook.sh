@@ -0,0 +1,31 @@
+#!/bin/bash
+
+# tool-approval-hook.sh
+# Claude Code의 PreToolUse 훅으로 등록하여 사용합니다. (~/.claude/settings.json)
+#
+# slack-vibecoder가 실행한 Claude 프로세스에서 호출되면, 도구 입력(stdin JSON)을
+# 봇의 승인 라우트로 보내고 슬랙에서 승인/거부될 때까지 기다립니다.
+# 봇의 응답(훅 출력 JSON)을 그대로 stdout으로 내보내면 Claude Code가 실행/차단을 결정합니다.
+#
+# 봇이 아닌 곳(터미널에서 직접 실행한 claude 등)에서는 아무것도 하지 않습니다.
+
+# 봇이 넘겨준 환경 변수가 없으면 통과
+if [ -z "$VIBECODER_APPROVAL_URL" ] || [ -z "$VIBECODER_APPROVAL_TOKEN" ]; then
+    exit 0
+fi
+
+response=$(curl -s --fail --max-time "${VIBECODER_APPROVAL_TIMEOUT:-130}" \
+    -X POST "$VIBECODER_APPROVAL_URL" \
+    -H "Content-Type: application/json" \
+    -H "X-Vibecoder-Token: $VIBECODER_APPROVAL_TOKEN" \
+    -H "X-Vibecoder-Thread: $VIBECODER_THREAD_TS" \
+    --data-binary @-)
+
+# 봇과 통신하지 못하면 안전하게 거부 (exit 2: stderr 내용이 Claude에게 전달됨)
+if [ $? -ne 0 ] || [ -z "$response" ]; then
+    echo "승인 서버와 통신하지 못해 실행을 거부합니다." >&2
+    exit 2
+fi
+
+echo "$response"
+exit 0